@@ -1,17 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
 import Sidebar from './components/Sidebar';
 import Editor from './components/Editor';
+import BatchAnalysis from './components/BatchAnalysis';
 import CoverLetterGen from './components/CoverLetterGen';
 import FigureCheck from './components/FigureCheck';
 import Guidelines from './components/Guidelines';
 import ChatAssistant from './components/ChatAssistant';
 import JournalFinder from './components/JournalFinder';
+import ManuscriptVersions from './components/ManuscriptVersions';
+import Settings from './components/Settings';
+import UsageDashboard from './components/UsageDashboard';
 import { AppTab } from './types';
+import { ProviderSettings, getProviderSettings, saveProviderSettings } from './services/llmProvider';
+import { subscribeProjects, getProjectState, loadProjects, setProjectJournal } from './services/projects';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.EDITOR);
-  const [targetJournal, setTargetJournal] = useState<string>("Nature Cell Biology");
+  // The target journal is saved with the open project
+  const { activeId: projectId, targetJournal } = useSyncExternalStore(subscribeProjects, getProjectState);
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getProviderSettings);
 
   useEffect(() => {
     const checkApiKey = async () => {
@@ -24,6 +32,7 @@ const App: React.FC = () => {
       }
     };
     checkApiKey();
+    loadProjects();
   }, []);
 
   const handleSelectKey = async () => {
@@ -35,7 +44,18 @@ const App: React.FC = () => {
     }
   };
 
-  if (!hasApiKey) {
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+  };
+
+  const useSelfHosted = () => {
+    handleProviderSettingsChange({ ...providerSettings, activeProvider: 'openai-compatible' });
+    setActiveTab(AppTab.SETTINGS);
+  };
+
+  // The AI Studio key is only needed when requests actually go to Gemini
+  if (!hasApiKey && providerSettings.activeProvider === 'gemini') {
     return (
       <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gray-50 text-gray-900 font-sans p-4">
         <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md w-full text-center border border-gray-200">
@@ -55,6 +75,13 @@ const App: React.FC = () => {
            >
              Select API Key
            </button>
+
+           <button 
+             onClick={useSelfHosted}
+             className="w-full py-2 px-4 text-sm font-medium text-gray-600 hover:text-natureDark border border-gray-200 hover:border-gray-300 rounded-lg transition-colors mb-4"
+           >
+             Use a self-hosted model instead
+           </button>
            
            <a 
              href="https://ai.google.dev/gemini-api/docs/billing" 
@@ -75,26 +102,45 @@ const App: React.FC = () => {
         activeTab={activeTab} 
         onTabChange={setActiveTab} 
         targetJournal={targetJournal}
-        onJournalChange={setTargetJournal}
+        onJournalChange={setProjectJournal}
       />
       <main className="flex-1 h-full relative overflow-hidden bg-white z-0">
-        <div className={activeTab === AppTab.EDITOR ? 'block h-full' : 'hidden'}>
-           <Editor targetJournal={targetJournal} />
-        </div>
-        <div className={activeTab === AppTab.CHAT ? 'block h-full' : 'hidden'}>
-           <ChatAssistant />
-        </div>
-        <div className={activeTab === AppTab.JOURNAL_FINDER ? 'block h-full' : 'hidden'}>
-           <JournalFinder />
-        </div>
-        <div className={activeTab === AppTab.COVER_LETTER ? 'block h-full' : 'hidden'}>
-           <CoverLetterGen targetJournal={targetJournal} />
-        </div>
-        <div className={activeTab === AppTab.FIGURE_CHECK ? 'block h-full' : 'hidden'}>
-           <FigureCheck targetJournal={targetJournal} />
+        {/* Project-bound tabs restore their work on mount, so they wait for the project and remount when it changes */}
+        {projectId ? (
+          <>
+            <div className={activeTab === AppTab.EDITOR ? 'block h-full' : 'hidden'}>
+               <Editor key={projectId} targetJournal={targetJournal} />
+            </div>
+            <div className={activeTab === AppTab.BATCH ? 'block h-full' : 'hidden'}>
+               <BatchAnalysis key={projectId} targetJournal={targetJournal} />
+            </div>
+            <div className={activeTab === AppTab.CHAT ? 'block h-full' : 'hidden'}>
+               <ChatAssistant />
+            </div>
+            <div className={activeTab === AppTab.JOURNAL_FINDER ? 'block h-full' : 'hidden'}>
+               <JournalFinder key={projectId} />
+            </div>
+            <div className={activeTab === AppTab.COVER_LETTER ? 'block h-full' : 'hidden'}>
+               <CoverLetterGen key={projectId} targetJournal={targetJournal} />
+            </div>
+            <div className={activeTab === AppTab.FIGURE_CHECK ? 'block h-full' : 'hidden'}>
+               <FigureCheck key={projectId} targetJournal={targetJournal} />
+            </div>
+            <div className={activeTab === AppTab.VERSIONS ? 'block h-full' : 'hidden'}>
+               <ManuscriptVersions key={projectId} />
+            </div>
+            <div className={activeTab === AppTab.GUIDELINES ? 'block h-full' : 'hidden'}>
+               <Guidelines targetJournal={targetJournal} />
+            </div>
+          </>
+        ) : activeTab !== AppTab.USAGE && activeTab !== AppTab.SETTINGS && (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">Opening project...</div>
+        )}
+        <div className={activeTab === AppTab.USAGE ? 'block h-full' : 'hidden'}>
+           <UsageDashboard />
         </div>
-        <div className={activeTab === AppTab.GUIDELINES ? 'block h-full' : 'hidden'}>
-           <Guidelines targetJournal={targetJournal} />
+        <div className={activeTab === AppTab.SETTINGS ? 'block h-full' : 'hidden'}>
+           <Settings providerSettings={providerSettings} onProviderSettingsChange={handleProviderSettingsChange} />
         </div>
       </main>
     </div>
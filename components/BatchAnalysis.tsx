@@ -0,0 +1,336 @@
+import React, { useState, useRef, useEffect, useSyncExternalStore } from 'react';
+import { AnalysisId, AnalysisOutput, AnalysisType, BatchParagraph, BatchRun, HunkDecision, ServiceResult } from '../types';
+import { subscribeManuscript, getManuscript } from '../services/manuscript';
+import { getWorkspace, updateWorkspace } from '../services/projects';
+import { subscribeCustomAnalyses, getCustomAnalyses, findCustomAnalysis } from '../services/customAnalyses';
+import { ANALYSIS_LABELS, analysisLabel } from '../services/analysisOutput';
+import { analyzeParagraphs, applyReviewedParagraphs, collectParagraphs, manuscriptParts, reviewedText } from '../services/batchAnalysis';
+import { diffWords } from '../services/textDiff';
+import { DiffSegment, currentDecisions, hunksOf, toSegments } from '../services/hunks';
+import ErrorNotice from './ErrorNotice';
+import HunkReview from './HunkReview';
+import { Layers, Play, Square, RotateCcw, CheckCheck, Loader2 } from 'lucide-react';
+
+const ALL = 'all';
+
+const STATUS_STYLES: Record<BatchParagraph['status'], string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  done: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-400'
+};
+
+interface BatchAnalysisProps {
+  targetJournal: string;
+}
+
+// One analysis over every paragraph of a section or of the whole manuscript, reviewed paragraph by paragraph
+const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ targetJournal }) => {
+  const manuscript = useSyncExternalStore(subscribeManuscript, getManuscript);
+  const customAnalyses = useSyncExternalStore(subscribeCustomAnalyses, getCustomAnalyses);
+  // Restored from the open project; App remounts the tab when another project is opened
+  const [scope, setScope] = useState(() => getWorkspace().batch?.scope || ALL);
+  const [analysisType, setAnalysisType] = useState<AnalysisId>(() => {
+    const saved = getWorkspace().batch?.analysisType;
+    // A custom analysis deleted in Settings since the project was saved falls back to the default
+    return saved && (findCustomAnalysis(saved) || Object.values(AnalysisType).includes(saved as AnalysisType)) ? saved : AnalysisType.IMPACT_POLISH;
+  });
+  const [run, setRun] = useState<BatchRun | null>(() => {
+    const saved = getWorkspace().batch?.run;
+    // Paragraphs still waiting when the project was saved will not complete
+    return saved ? { ...saved, paragraphs: saved.paragraphs.map(p => p.status === 'pending' ? { ...p, status: 'cancelled' } : p) } : null;
+  });
+  const [isRunning, setIsRunning] = useState(false);
+  const [notice, setNotice] = useState('');
+  const batchAbort = useRef<AbortController | null>(null);
+  // Change hunks of each paragraph's rewrite, per run
+  const rewriteDiffs = useRef<Map<string, DiffSegment[]>>(new Map());
+
+  // The state as restored (a saved run is rebuilt above): until the first change, opening the project
+  // doesn't count as an edit
+  const restored = useRef<{ scope: string; analysisType: AnalysisId; run: BatchRun | null } | null>({ scope, analysisType, run });
+
+  useEffect(() => {
+    const r = restored.current;
+    if (r && r.scope === scope && r.analysisType === analysisType && r.run === run) return;
+    restored.current = null;
+    updateWorkspace('batch', { scope, analysisType, run });
+  }, [scope, analysisType, run]);
+
+  const parts = manuscriptParts(manuscript);
+  const scopePart = parts.find(p => p.source === scope) || null;
+
+  const updateParagraph = (id: string, patch: Partial<BatchParagraph>) =>
+    setRun(prev => prev && { ...prev, paragraphs: prev.paragraphs.map(p => p.id === id ? { ...p, ...patch } : p) });
+
+  const execute = async (batch: BatchRun, paragraphs: BatchParagraph[]) => {
+    const controller = new AbortController();
+    batchAbort.current = controller;
+    setIsRunning(true);
+    setNotice('');
+    const onResult = (id: string, result: ServiceResult<AnalysisOutput>) => {
+      if (result.status === 'ok') {
+        const { rewrite, notes, promptVersions } = result.value;
+        updateParagraph(id, { status: 'done', rewrite, notes, error: undefined });
+        setRun(prev => prev && !prev.promptVersions.length ? { ...prev, promptVersions } : prev);
+        return;
+      }
+      if (result.error.kind === 'CANCELLED') {
+        updateParagraph(id, { status: 'cancelled' });
+        return;
+      }
+      // Out of budget: the remaining paragraphs would fail the same way
+      if (result.error.kind === 'BUDGET_EXCEEDED') controller.abort();
+      updateParagraph(id, { status: 'failed', error: result.error });
+    };
+    try {
+      await analyzeParagraphs(paragraphs, batch.type, batch.targetJournal, onResult, { signal: controller.signal });
+    } finally {
+      batchAbort.current = null;
+      setIsRunning(false);
+      // Anything that never reported back is not still running
+      const ids = new Set(paragraphs.map(p => p.id));
+      setRun(prev => prev && { ...prev, paragraphs: prev.paragraphs.map(p => ids.has(p.id) && p.status === 'pending' ? { ...p, status: 'cancelled' } : p) });
+    }
+  };
+
+  const hasUnapplied = (batch: BatchRun | null) => !!batch?.paragraphs.some(p => !p.appliedAt && reviewedText(p) !== null);
+
+  const handleRun = () => {
+    const paragraphs = collectParagraphs(manuscript, scopePart);
+    if (!paragraphs.length) {
+      setNotice('No paragraphs to analyze in this part of the manuscript.');
+      return;
+    }
+    if (hasUnapplied(run) && !window.confirm('The current batch has accepted changes that were not applied yet. Discard them and start a new batch?')) return;
+    const custom = findCustomAnalysis(analysisType);
+    const batch: BatchRun = {
+      id: Date.now().toString(),
+      type: analysisType,
+      ...(custom && { analysisName: custom.name }),
+      scope: scopePart,
+      targetJournal,
+      startedAt: Date.now(),
+      promptVersions: [],
+      paragraphs
+    };
+    rewriteDiffs.current.clear();
+    setRun(batch);
+    execute(batch, paragraphs);
+  };
+
+  const retryParagraphs = (paragraphs: BatchParagraph[]) => {
+    if (!run || !paragraphs.length) return;
+    const ids = new Set(paragraphs.map(p => p.id));
+    setRun({ ...run, paragraphs: run.paragraphs.map(p => ids.has(p.id) ? { ...p, status: 'pending', error: undefined } : p) });
+    execute(run, paragraphs);
+  };
+
+  const rewriteDiff = (paragraph: BatchParagraph) => {
+    let segments = rewriteDiffs.current.get(paragraph.id);
+    if (!segments) {
+      segments = toSegments(diffWords(paragraph.input, paragraph.rewrite || ''));
+      rewriteDiffs.current.set(paragraph.id, segments);
+    }
+    return segments;
+  };
+
+  const addDecisions = (paragraphId: string, decisions: Omit<HunkDecision, 'decidedAt'>[]) => {
+    const decidedAt = Date.now();
+    setRun(prev => prev && {
+      ...prev,
+      paragraphs: prev.paragraphs.map(p =>
+        p.id === paragraphId ? { ...p, decisions: [...(p.decisions || []), ...decisions.map(d => ({ ...d, decidedAt }))] } : p
+      )
+    });
+  };
+
+  const undecided = (paragraph: BatchParagraph) => {
+    const decided = currentDecisions(paragraph.decisions);
+    return hunksOf(rewriteDiff(paragraph)).filter(h => !decided.has(h.index));
+  };
+
+  const decideRemaining = (paragraph: BatchParagraph, status: 'accepted' | 'rejected') =>
+    addDecisions(paragraph.id, undecided(paragraph).map(h => ({ hunk: h.index, status })));
+
+  const acceptAll = () => {
+    if (!run) return;
+    run.paragraphs
+      .filter(p => p.status === 'done' && p.rewrite !== undefined && !p.appliedAt)
+      .forEach(p => decideRemaining(p, 'accepted'));
+  };
+
+  const applyAll = () => {
+    if (!run) return;
+    const { applied, stale } = applyReviewedParagraphs(run.paragraphs);
+    const appliedAt = Date.now();
+    const ids = new Set(applied);
+    setRun({ ...run, paragraphs: run.paragraphs.map(p => ids.has(p.id) ? { ...p, appliedAt } : p) });
+    setNotice(`Applied ${applied.length} paragraph${applied.length === 1 ? '' : 's'} to the manuscript.${
+      stale.length ? ` ${stale.length} skipped because the manuscript text changed since the batch ran.` : ''
+    }`);
+  };
+
+  const paragraphs = run?.paragraphs || [];
+  const finished = paragraphs.filter(p => p.status !== 'pending').length;
+  const failed = paragraphs.filter(p => p.status === 'failed' || p.status === 'cancelled');
+  const toApply = paragraphs.filter(p => !p.appliedAt && reviewedText(p) !== null).length;
+  const openChanges = paragraphs.filter(p => p.status === 'done' && p.rewrite !== undefined && !p.appliedAt).reduce((n, p) => n + undecided(p).length, 0);
+  const groups = paragraphs.reduce<{ title: string; source: string; paragraphs: BatchParagraph[] }[]>((acc, p) => {
+    const last = acc[acc.length - 1];
+    if (last?.source === p.part.source) last.paragraphs.push(p);
+    else acc.push({ title: p.part.title, source: p.part.source, paragraphs: [p] });
+    return acc;
+  }, []);
+
+  const renderParagraph = (paragraph: BatchParagraph) => {
+    const segments = paragraph.rewrite !== undefined ? rewriteDiff(paragraph) : [];
+    const hunkCount = hunksOf(segments).length;
+    const decided = currentDecisions(paragraph.decisions);
+    return (
+      <div key={paragraph.id} className="bg-white border border-gray-200 rounded-xl shadow-sm">
+        <div className="flex items-center px-4 py-2 border-b border-gray-100 bg-gray-50/50 rounded-t-xl">
+          <span className="text-xs font-bold text-gray-500">¶ {paragraph.index}</span>
+          <span className={`ml-3 text-[10px] font-bold uppercase px-2 py-0.5 rounded flex items-center ${STATUS_STYLES[paragraph.status]}`}>
+            {paragraph.status === 'pending' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            {paragraph.status}
+          </span>
+          {paragraph.appliedAt && (
+            <span className="ml-2 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-natureRed/10 text-natureRed" title={new Date(paragraph.appliedAt).toLocaleString()}>
+              Applied
+            </span>
+          )}
+          {paragraph.status === 'done' && hunkCount > 0 && !paragraph.appliedAt && (
+            <div className="ml-auto flex items-center space-x-3 text-xs">
+              <span className="text-gray-400">{decided.size} of {hunkCount} changes reviewed</span>
+              {decided.size < hunkCount && (
+                <>
+                  <button onClick={() => decideRemaining(paragraph, 'accepted')} className="text-green-700 hover:underline">Accept rest</button>
+                  <button onClick={() => decideRemaining(paragraph, 'rejected')} className="text-red-600 hover:underline">Reject rest</button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="p-4 space-y-3">
+          {paragraph.status === 'done' && paragraph.rewrite !== undefined ? (
+            paragraph.appliedAt
+              ? <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">{reviewedText(paragraph)}</div>
+              : <HunkReview segments={segments} decisions={paragraph.decisions} onDecide={(hunk, status, text) => addDecisions(paragraph.id, [{ hunk, status, text }])} />
+          ) : (
+            <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-500">{paragraph.input}</div>
+          )}
+          {paragraph.status === 'failed' && paragraph.error && (
+            <ErrorNotice compact error={paragraph.error} onRetry={isRunning ? undefined : () => retryParagraphs([paragraph])} />
+          )}
+          {paragraph.notes && (
+            <details className="text-xs text-gray-600">
+              <summary className="cursor-pointer font-bold text-gray-500 uppercase tracking-wider">Editor's Notes</summary>
+              <div className="whitespace-pre-wrap mt-2 leading-relaxed">{paragraph.notes}</div>
+            </details>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      <div className="p-6 border-b border-gray-200 bg-white shadow-sm z-10">
+        <div className="flex items-center mb-2">
+          <Layers className="w-6 h-6 text-natureRed mr-2" />
+          <h2 className="text-xl font-serif font-bold text-natureDark">Batch Analysis</h2>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Run one analysis over every paragraph of a section or of the whole manuscript, review the changes paragraph by paragraph, then apply all accepted changes at once.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={scopePart ? scope : ALL}
+            onChange={(e) => setScope(e.target.value)}
+            disabled={isRunning}
+            className="bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 text-sm outline-none focus:border-natureRed"
+          >
+            <option value={ALL}>Whole manuscript</option>
+            {parts.map(part => <option key={part.source} value={part.source}>{part.title}</option>)}
+          </select>
+          <select
+            value={analysisType}
+            onChange={(e) => setAnalysisType(e.target.value)}
+            disabled={isRunning}
+            className="bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 text-sm outline-none focus:border-natureRed"
+          >
+            {Object.entries(ANALYSIS_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+            {customAnalyses.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+          {isRunning ? (
+            <button
+              onClick={() => batchAbort.current?.abort()}
+              className="flex items-center px-4 py-1.5 rounded-md text-sm font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition-all"
+            >
+              <Square className="w-4 h-4 mr-2 fill-current" /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!parts.length}
+              className="flex items-center px-4 py-1.5 rounded-md text-sm font-semibold text-white bg-natureRed hover:bg-red-700 shadow-md transition-all disabled:bg-gray-400 disabled:shadow-none"
+            >
+              <Play className="w-4 h-4 mr-2 fill-current" /> Run Batch
+            </button>
+          )}
+          {!parts.length && <span className="text-xs text-gray-400">Add the manuscript text under Manuscript Editor first.</span>}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8">
+        {run ? (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-2 text-xs">
+              <span className="font-bold text-natureDark">{analysisLabel(run.type, run.analysisName)}</span>
+              <span className="text-gray-400">
+                {run.scope ? run.scope.title : 'Whole manuscript'} · for {run.targetJournal} · {finished} of {paragraphs.length} paragraphs
+              </span>
+              <span className="flex-1" />
+              {!isRunning && failed.length > 0 && (
+                <button onClick={() => retryParagraphs(failed)} className="flex items-center text-gray-500 hover:text-natureDark">
+                  <RotateCcw className="w-3 h-3 mr-1" /> Retry {failed.length} unfinished
+                </button>
+              )}
+              {openChanges > 0 && (
+                <button onClick={acceptAll} className="text-green-700 hover:underline">Accept all {openChanges} open changes</button>
+              )}
+              <button
+                onClick={applyAll}
+                disabled={!toApply}
+                title="Write the accepted and edited changes of every paragraph into the manuscript"
+                className="flex items-center font-bold text-natureRed border border-natureRed/40 rounded px-2 py-1 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <CheckCheck className="w-3 h-3 mr-1" /> Apply all accepted{toApply ? ` (${toApply})` : ''}
+              </button>
+            </div>
+            <div className="h-1 bg-gray-200 rounded-full overflow-hidden mb-4">
+              <div className="h-full bg-natureRed transition-all" style={{ width: `${paragraphs.length ? (finished / paragraphs.length) * 100 : 0}%` }} />
+            </div>
+            {notice && <p className="text-xs text-gray-500 mb-4">{notice}</p>}
+            <div className="space-y-8">
+              {groups.map(group => (
+                <section key={group.source}>
+                  <h3 className="text-sm font-serif font-bold text-natureDark mb-3">{group.title}</h3>
+                  <div className="space-y-3">{group.paragraphs.map(renderParagraph)}</div>
+                </section>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            {notice && <p className="text-xs text-gray-500 mb-4">{notice}</p>}
+            <p className="text-sm text-gray-400 text-center py-16">Choose a section and an analysis, then run the batch.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchAnalysis;
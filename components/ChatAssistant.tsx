@@ -1,15 +1,20 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Bot, User, Trash2, Sparkles } from 'lucide-react';
-import { Chat, GenerateContentResponse } from "@google/genai";
+import { Send, Bot, User, Trash2, Sparkles, Square } from 'lucide-react';
 import { createChatSession } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { ChatSession } from '../services/llmProvider';
+import { classifyError } from '../services/serviceErrors';
+import { ChatMessage, ServiceError } from '../types';
+import ErrorNotice from './ErrorNotice';
 
 const ChatAssistant: React.FC = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const chatSession = useRef<Chat | null>(null);
+  // Failed reply together with the message to resend
+  const [chatError, setChatError] = useState<{ error: ServiceError; message: string } | null>(null);
+  const chatSession = useRef<ChatSession | null>(null);
+  const replyAbort = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -38,19 +43,24 @@ const ChatAssistant: React.FC = () => {
     
     setMessages(prev => [...prev, userMsg]);
     setInput('');
+
+    await streamReply(userText);
+  };
+
+  const streamReply = async (userText: string) => {
+    if (!chatSession.current) return;
     setIsLoading(true);
+    setChatError(null);
 
     // Create a placeholder for the AI response to stream into
     const aiMsgId = (Date.now() + 1).toString();
     setMessages(prev => [...prev, { id: aiMsgId, role: 'model', text: '', isStreaming: true }]);
+    const controller = new AbortController();
+    replyAbort.current = controller;
 
     try {
-      const resultStream = await chatSession.current.sendMessageStream({ message: userText });
-      
       let fullText = '';
-      for await (const chunk of resultStream) {
-        const c = chunk as GenerateContentResponse;
-        const textChunk = c.text;
+      for await (const textChunk of chatSession.current.sendMessageStream(userText, controller.signal)) {
         if (textChunk) {
           fullText += textChunk;
           setMessages(prev => prev.map(msg => 
@@ -64,13 +74,18 @@ const ChatAssistant: React.FC = () => {
       ));
 
     } catch (error) {
-      console.error("Chat error:", error);
-      setMessages(prev => [...prev, { 
-        id: Date.now().toString(), 
-        role: 'model', 
-        text: "I apologize, but I encountered an error processing your request. Please try again." 
-      }]);
+      // Discard the partial reply; the session only commits completed turns
+      setMessages(prev => prev.filter(msg => msg.id !== aiMsgId));
+      if (controller.signal.aborted) {
+        // Stopped: withdraw the question too and hand it back for editing
+        setMessages(prev => prev[prev.length - 1]?.role === 'user' ? prev.slice(0, -1) : prev);
+        setInput(userText);
+      } else {
+        console.error("Chat error:", error);
+        setChatError({ error: classifyError(error), message: userText });
+      }
     } finally {
+      replyAbort.current = null;
       setIsLoading(false);
     }
   };
@@ -84,7 +99,9 @@ const ChatAssistant: React.FC = () => {
 
   const clearChat = () => {
     if (window.confirm("Clear conversation history?")) {
-      chatSession.current = createChatSession(); // Reset Gemini session
+      replyAbort.current?.abort();
+      chatSession.current = createChatSession(); // Reset model session
+      setChatError(null);
       setMessages([{
         id: Date.now().toString(),
         role: 'model',
@@ -141,6 +158,16 @@ const ChatAssistant: React.FC = () => {
             </div>
           );
         })}
+        {chatError && !isLoading && (
+          <div className="max-w-[80%] ml-11">
+            <ErrorNotice
+              compact
+              error={chatError.error}
+              onRetry={() => streamReply(chatError.message)}
+              onDismiss={() => setChatError(null)}
+            />
+          </div>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -156,17 +183,27 @@ const ChatAssistant: React.FC = () => {
             rows={1}
             style={{ minHeight: '60px', maxHeight: '120px' }}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className={`absolute right-3 bottom-3 p-2 rounded-lg transition-all ${
-              input.trim() 
-                ? 'bg-natureDark text-white hover:bg-black' 
-                : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-            }`}
-          >
-            <Send className="w-4 h-4" />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={() => replyAbort.current?.abort()}
+              title="Stop reply"
+              className="absolute right-3 bottom-3 p-2 rounded-lg transition-all bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className={`absolute right-3 bottom-3 p-2 rounded-lg transition-all ${
+                input.trim() 
+                  ? 'bg-natureDark text-white hover:bg-black' 
+                  : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
         </div>
         <p className="text-center text-xs text-gray-400 mt-2">AI can make mistakes. Please verify important scientific information.</p>
       </div>
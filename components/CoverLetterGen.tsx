@@ -1,34 +1,72 @@
 
-import React, { useState } from 'react';
-import { generateCoverLetter } from '../services/geminiService';
-import { CoverLetterParams } from '../types';
-import { FileText, RefreshCw, Copy, Check } from 'lucide-react';
+import React, { useState, useRef, useEffect, useSyncExternalStore } from 'react';
+import { streamCoverLetter } from '../services/geminiService';
+import { CoverLetterParams, ServiceError, TextCoverage } from '../types';
+import { FileText, RefreshCw, Copy, Check, Square } from 'lucide-react';
+import ErrorNotice from './ErrorNotice';
+import CoverageNote from './CoverageNote';
+import ManuscriptImport from './ManuscriptImport';
+import {
+  subscribeManuscript, getManuscript, getManuscriptText, updateManuscript, setManuscriptText, correspondingAuthor, updateCorrespondingAuthor
+} from '../services/manuscript';
+import { getWorkspace, updateWorkspace } from '../services/projects';
 
 interface CoverLetterGenProps {
   targetJournal: string;
 }
 
 const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
-  const [params, setParams] = useState<CoverLetterParams>({
-    title: '',
-    authorName: '',
-    affiliation: '',
-    abstract: '',
-    manuscriptText: '',
-    editorName: ''
-  });
-  const [letter, setLetter] = useState('');
+  // Everything but the editor's name comes from the shared manuscript
+  const manuscript = useSyncExternalStore(subscribeManuscript, getManuscript);
+  const manuscriptText = useSyncExternalStore(subscribeManuscript, getManuscriptText);
+  const [editorName, setEditorName] = useState(() => getWorkspace().coverLetter?.editorName || '');
+  const author = correspondingAuthor(manuscript);
+  const params: CoverLetterParams = {
+    title: manuscript.title,
+    authorName: author?.name || '',
+    affiliation: author?.affiliation || '',
+    abstract: manuscript.abstract,
+    manuscriptText,
+    editorName
+  };
+  const [letter, setLetter] = useState(() => getWorkspace().coverLetter?.letter || '');
+  // Letter being written; replaces `letter` only once complete
+  const [draftLetter, setDraftLetter] = useState<string | null>(null);
+  const [coverage, setCoverage] = useState<TextCoverage | null>(() => getWorkspace().coverLetter?.coverage || null);
+  // Section summaries done / total while a long manuscript is condensed
+  const [digestProgress, setDigestProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [copied, setCopied] = useState(false);
+  const generateAbort = useRef<AbortController | null>(null);
 
-  const handleChange = (field: keyof CoverLetterParams, value: string) => {
-    setParams(prev => ({ ...prev, [field]: value }));
-  };
+  useEffect(() => {
+    updateWorkspace('coverLetter', { editorName, letter, coverage });
+  }, [editorName, letter, coverage]);
 
   const handleGenerate = async () => {
+    const controller = new AbortController();
+    generateAbort.current = controller;
     setIsLoading(true);
-    const result = await generateCoverLetter(params, targetJournal);
-    setLetter(result);
+    setError(null);
+    setDraftLetter('');
+    const result = await streamCoverLetter(params, targetJournal, setDraftLetter, {
+      signal: controller.signal,
+      onDigestProgress: (done, total) => setDigestProgress({ done, total })
+    });
+    generateAbort.current = null;
+    setDraftLetter(null);
+    setDigestProgress(null);
+    // When stopped, the previous letter (if any) stays as it was
+    if (!controller.signal.aborted) {
+      if (result.status === 'ok') {
+        setLetter(result.value.result);
+        setCoverage(result.value.coverage);
+      } else {
+        // Keep any previous letter; the error is shown above it
+        setError(result.error);
+      }
+    }
     setIsLoading(false);
   };
 
@@ -46,13 +84,15 @@ const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
         <p className="text-xs text-natureRed font-bold uppercase mb-6">Targeting: {targetJournal}</p>
         
         <div className="space-y-4">
+          <ManuscriptImport />
+
           <div>
             <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Manuscript Title</label>
             <input 
               type="text" 
               className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
               value={params.title}
-              onChange={(e) => handleChange('title', e.target.value)}
+              onChange={(e) => updateManuscript({ title: e.target.value })}
             />
           </div>
 
@@ -63,7 +103,7 @@ const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
                 type="text" 
                 className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
                 value={params.authorName}
-                onChange={(e) => handleChange('authorName', e.target.value)}
+                onChange={(e) => updateCorrespondingAuthor({ name: e.target.value })}
               />
             </div>
             <div>
@@ -73,7 +113,7 @@ const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
                 placeholder="e.g. Dr. Smith"
                 className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
                 value={params.editorName}
-                onChange={(e) => handleChange('editorName', e.target.value)}
+                onChange={(e) => setEditorName(e.target.value)}
               />
             </div>
           </div>
@@ -84,7 +124,7 @@ const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
               type="text" 
               className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
               value={params.affiliation}
-              onChange={(e) => handleChange('affiliation', e.target.value)}
+              onChange={(e) => updateCorrespondingAuthor({ affiliation: e.target.value })}
             />
           </div>
 
@@ -94,7 +134,7 @@ const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
               rows={6}
               className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
               value={params.abstract}
-              onChange={(e) => handleChange('abstract', e.target.value)}
+              onChange={(e) => updateManuscript({ abstract: e.target.value })}
               placeholder="Paste abstract..."
             />
           </div>
@@ -106,25 +146,57 @@ const CoverLetterGen: React.FC<CoverLetterGenProps> = ({ targetJournal }) => {
               placeholder="Paste Introduction, Results, and Discussion here. The AI will extract the novelty for you."
               className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
               value={params.manuscriptText}
-              onChange={(e) => handleChange('manuscriptText', e.target.value)}
+              onChange={(e) => setManuscriptText(e.target.value)}
             />
              <p className="text-xs text-gray-400 mt-1">The AI will analyze this text to identify the conceptual advance and tailor the pitch to {targetJournal}.</p>
           </div>
 
-          <button
-            onClick={handleGenerate}
-            disabled={isLoading || !params.manuscriptText}
-            className={`w-full py-3 bg-natureRed text-white font-bold rounded hover:bg-red-700 transition-colors flex items-center justify-center ${isLoading || !params.manuscriptText ? 'opacity-50 cursor-not-allowed' : ''}`}
-          >
-            {isLoading ? <RefreshCw className="w-4 h-4 animate-spin" /> : <><FileText className="w-4 h-4 mr-2" /> Generate Letter</>}
-          </button>
+          {isLoading ? (
+            <div className="flex space-x-2">
+              <div className="flex-1 py-3 bg-natureRed text-white font-bold rounded flex items-center justify-center opacity-50 cursor-not-allowed">
+                <RefreshCw className="w-4 h-4 animate-spin" />
+                {digestProgress && !draftLetter && (
+                  <span className="ml-2 text-sm">Summarizing sections {digestProgress.done}/{digestProgress.total}</span>
+                )}
+              </div>
+              <button
+                onClick={() => generateAbort.current?.abort()}
+                className="px-4 py-3 font-bold rounded border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 transition-colors flex items-center justify-center"
+              >
+                <Square className="w-4 h-4 mr-2 fill-current" /> Stop
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleGenerate}
+              disabled={!params.manuscriptText}
+              className={`w-full py-3 bg-natureRed text-white font-bold rounded hover:bg-red-700 transition-colors flex items-center justify-center ${!params.manuscriptText ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <FileText className="w-4 h-4 mr-2" /> Generate Letter
+            </button>
+          )}
         </div>
       </div>
 
       {/* Preview */}
       <div className="w-2/3 h-full flex flex-col p-8 overflow-y-auto">
+        {error && (
+          <div className="max-w-3xl mx-auto w-full mb-4">
+            <ErrorNotice error={error} onRetry={handleGenerate} onDismiss={() => setError(null)} />
+          </div>
+        )}
+        {coverage && letter && draftLetter === null && (
+          <div className="max-w-3xl mx-auto w-full mb-4">
+            <CoverageNote coverage={coverage} />
+          </div>
+        )}
         <div className="max-w-3xl mx-auto w-full bg-white shadow-lg min-h-[800px] p-12 relative">
-          {letter ? (
+          {draftLetter !== null ? (
+            <div className="font-serif text-sm leading-relaxed whitespace-pre-wrap text-gray-900">
+              {draftLetter}
+              <span className="inline-block w-1 h-4 ml-1 bg-natureRed animate-pulse align-middle" />
+            </div>
+          ) : letter ? (
             <>
               <button 
                 onClick={handleCopy}
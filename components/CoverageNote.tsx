@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { TextCoverage } from '../types';
+import { Layers, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface CoverageNoteProps {
+  coverage: TextCoverage;
+}
+
+const STATUS_STYLE: Record<TextCoverage['sections'][number]['status'], string> = {
+  included: 'bg-green-100 text-green-800',
+  summarized: 'bg-blue-100 text-blue-800',
+  skipped: 'bg-gray-100 text-gray-500',
+  failed: 'bg-red-100 text-red-800'
+};
+
+// Tells the user how much of the manuscript the model actually saw
+const CoverageNote: React.FC<CoverageNoteProps> = ({ coverage }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (coverage.totalChars === 0) return null;
+
+  const percent = Math.round((coverage.consideredChars / coverage.totalChars) * 100);
+  const summary = coverage.mode === 'full'
+    ? `Full text considered (${(coverage.totalChars / 1000).toFixed(1)}k chars)`
+    : `Long manuscript: ${percent}% of the text considered via section summaries`;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg text-xs text-gray-600">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={coverage.mode === 'full'}
+        className="w-full flex items-center px-3 py-2 text-left"
+      >
+        <Layers className="w-3.5 h-3.5 mr-2 text-gray-400 flex-shrink-0" />
+        <span className="flex-1">{summary}</span>
+        {coverage.mode === 'digest' && (expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />)}
+      </button>
+      {expanded && (
+        <ul className="border-t border-gray-100 px-3 py-2 space-y-1">
+          {coverage.sections.map((section, i) => (
+            <li key={i} className="flex items-center justify-between">
+              <span className="truncate mr-2">{section.title}</span>
+              <span className="flex items-center flex-shrink-0">
+                <span className="text-gray-400 mr-2">{(section.chars / 1000).toFixed(1)}k</span>
+                <span className={`px-1.5 py-0.5 rounded font-bold uppercase tracking-wide text-[10px] ${STATUS_STYLE[section.status]}`}>
+                  {section.status}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CoverageNote;
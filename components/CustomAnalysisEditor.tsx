@@ -0,0 +1,224 @@
+import React, { useState, useRef, useSyncExternalStore } from 'react';
+import {
+  CustomAnalysis, CUSTOM_ANALYSIS_ICONS, CUSTOM_ANALYSIS_VARIABLES, subscribeCustomAnalyses, getCustomAnalyses, saveCustomAnalysis,
+  deleteCustomAnalysis, newCustomAnalysisId, exportCustomAnalyses, importCustomAnalyses
+} from '../services/customAnalyses';
+import { Wand2, Plus, Download, Upload, Trash2, Check, Sparkles, FlaskConical, Dna, Microscope, BookOpen, List, PenLine, Search, LucideIcon } from 'lucide-react';
+
+const ICONS: Record<CustomAnalysis['icon'], LucideIcon> = {
+  sparkles: Sparkles,
+  flask: FlaskConical,
+  dna: Dna,
+  microscope: Microscope,
+  book: BookOpen,
+  list: List,
+  pen: PenLine,
+  search: Search
+};
+
+export const customAnalysisIcon = (icon: CustomAnalysis['icon'] | undefined): LucideIcon => (icon && ICONS[icon]) || Sparkles;
+
+const emptyAnalysis = (): CustomAnalysis => ({
+  id: '',
+  name: '',
+  icon: 'sparkles',
+  output: 'critique',
+  systemInstruction: '',
+  promptTemplate: 'Check the following text for {{journal}}.\n\nText:\n"{{text}}"'
+});
+
+const inputClass = "w-full p-2 bg-white border border-gray-200 rounded text-sm outline-none focus:border-natureRed";
+
+// Define, share and remove the user's own Editor analyses
+const CustomAnalysisEditor: React.FC = () => {
+  const analyses = useSyncExternalStore(subscribeCustomAnalyses, getCustomAnalyses);
+  const [draft, setDraft] = useState<CustomAnalysis | null>(null);
+  const [status, setStatus] = useState('');
+  const [saved, setSaved] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<CustomAnalysis>) => {
+    setDraft(prev => prev && { ...prev, ...patch });
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.promptTemplate.trim()) return;
+    setDraft(saveCustomAnalysis({ ...draft, name: draft.name.trim(), id: draft.id || newCustomAnalysisId(draft.name) }));
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id || !window.confirm(`Delete the "${draft.name}" analysis? Existing history cards keep its results.`)) return;
+    deleteCustomAnalysis(draft.id);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(exportCustomAnalyses(), null, 2)], { type: 'application/json' }));
+    link.download = 'manuscript-pilot-analyses.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importCustomAnalyses(JSON.parse(await file.text()));
+      setStatus(`Imported ${count} analyses from ${file.name}.`);
+    } catch (error) {
+      console.error("Error importing custom analyses:", error);
+      setStatus(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const unknownVariables = draft
+    ? [...`${draft.promptTemplate} ${draft.systemInstruction || ''}`.matchAll(/\{\{(\w+)\}\}/g)].map(m => m[1]).filter(v => !CUSTOM_ANALYSIS_VARIABLES.includes(v))
+    : [];
+
+  return (
+    <section className="mb-10">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xs font-bold text-natureRed uppercase tracking-wider flex items-center">
+          <Wand2 className="w-4 h-4 mr-2" /> Custom Analyses ({analyses.length})
+        </h3>
+        <div className="flex space-x-2">
+          <button onClick={() => { setDraft(emptyAnalysis()); setSaved(false); }} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+            <Plus className="w-3 h-3 mr-2" /> Add
+          </button>
+          <button onClick={handleExport} disabled={!analyses.length} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center disabled:opacity-50">
+            <Download className="w-3 h-3 mr-2" /> Export
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+            <Upload className="w-3 h-3 mr-2" /> Import
+          </button>
+          <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Custom analyses appear as buttons in the Editor next to the built-in ones. Export them to share with your group.
+      </p>
+      {status && <p className="text-xs text-gray-500 mb-2">{status}</p>}
+
+      <div className="flex border border-gray-100 rounded-lg overflow-hidden">
+        <ul className="w-1/3 max-h-[28rem] overflow-y-auto border-r border-gray-100 divide-y divide-gray-100">
+          {analyses.length === 0 && <li className="px-3 py-4 text-xs text-gray-400">None yet.</li>}
+          {analyses.map(a => {
+            const Icon = customAnalysisIcon(a.icon);
+            return (
+              <li key={a.id}>
+                <button
+                  onClick={() => { setDraft(a); setSaved(false); }}
+                  className={`w-full text-left px-3 py-2 text-xs flex items-start ${draft?.id === a.id ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+                >
+                  <Icon className="w-3 h-3 mr-2 mt-0.5 text-gray-400 flex-shrink-0" />
+                  <span className="min-w-0">
+                    <span className="block font-bold text-natureDark truncate">{a.name}</span>
+                    <span className="text-gray-400">{a.output === 'rewrite' ? 'Rewrite' : 'Critique'} · r{a.revision || 1}</span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex-1 p-4 bg-gray-50">
+          {draft ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Name</label>
+                  <input className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Gene nomenclature" />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Icon</label>
+                  <div className="flex flex-wrap gap-1">
+                    {CUSTOM_ANALYSIS_ICONS.map(icon => {
+                      const Icon = ICONS[icon];
+                      return (
+                        <button
+                          key={icon}
+                          onClick={() => update({ icon })}
+                          title={icon}
+                          className={`p-1.5 rounded border ${draft.icon === icon ? 'border-natureRed text-natureRed bg-white' : 'border-transparent text-gray-400 hover:text-gray-700'}`}
+                        >
+                          <Icon className="w-3.5 h-3.5" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Output</label>
+                  <select className={inputClass} value={draft.output} onChange={(e) => update({ output: e.target.value as CustomAnalysis['output'] })}>
+                    <option value="critique">Critique (notes only)</option>
+                    <option value="rewrite">Rewrite (tracked changes + notes)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Temperature</label>
+                  <input
+                    type="number" min={0} max={2} step={0.1}
+                    className={inputClass}
+                    value={draft.temperature ?? ''}
+                    placeholder="Editor default"
+                    onChange={(e) => update({ temperature: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">System Instruction</label>
+                <textarea
+                  rows={3}
+                  className={`${inputClass} font-mono text-xs`}
+                  value={draft.systemInstruction || ''}
+                  onChange={(e) => update({ systemInstruction: e.target.value })}
+                  placeholder="Leave empty to use the Editor's system instruction (Senior Editor at {{journal}})."
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Prompt Template</label>
+                <textarea
+                  rows={6}
+                  className={`${inputClass} font-mono text-xs`}
+                  value={draft.promptTemplate}
+                  onChange={(e) => update({ promptTemplate: e.target.value })}
+                />
+                <p className="text-[10px] text-gray-400 mt-1">
+                  Variables: {CUSTOM_ANALYSIS_VARIABLES.map(v => `{{${v}}}`).join(', ')}.
+                  {unknownVariables.length > 0 && <span className="text-amber-600"> Unknown: {unknownVariables.map(v => `{{${v}}}`).join(', ')}.</span>}
+                </p>
+              </div>
+              <div className="flex justify-end space-x-2 pt-1">
+                {draft.id && (
+                  <button onClick={handleDelete} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center">
+                    <Trash2 className="w-3 h-3 mr-2" /> Delete
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.name.trim() || !draft.promptTemplate.trim()}
+                  className="px-3 py-1.5 text-xs font-bold text-white bg-natureRed hover:bg-red-700 rounded flex items-center disabled:opacity-50"
+                >
+                  {saved ? <><Check className="w-3 h-3 mr-2" /> Saved</> : 'Save Analysis'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 h-full flex items-center justify-center text-center">
+              Select an analysis to edit it, or add one. The prompt template must include {'{{text}}'} to receive the Editor input.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CustomAnalysisEditor;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { DiffPart } from '../services/textDiff';
+
+export type DiffMode = 'inline' | 'split';
+
+interface DiffViewProps {
+  parts: DiffPart[];
+  mode?: DiffMode;
+  // Shorten long unchanged stretches to their first and last words
+  collapse?: boolean;
+}
+
+const CONTEXT_CHARS = 160;
+
+const Deleted: React.FC<{ text: string }> = ({ text }) => (
+  <del className="bg-red-50 text-red-700 decoration-red-300">{text}</del>
+);
+
+const Inserted: React.FC<{ text: string }> = ({ text }) => (
+  <ins className="bg-green-50 text-green-800 no-underline border-b border-green-300">{text}</ins>
+);
+
+const Unchanged: React.FC<{ text: string; collapse?: boolean; first: boolean; last: boolean }> = ({ text, collapse, first, last }) => {
+  if (!collapse || text.length < CONTEXT_CHARS * 3) return <span>{text}</span>;
+  const head = first ? '' : text.slice(0, CONTEXT_CHARS).replace(/\S*$/, '');
+  const tail = last ? '' : text.slice(-CONTEXT_CHARS).replace(/^\S*/, '');
+  return <span>{head}<span className="text-gray-300 select-none"> [...] </span>{tail}</span>;
+};
+
+// Tracked-changes rendering of a word diff: inline, or the old and new text side by side
+const DiffView: React.FC<DiffViewProps> = ({ parts, mode = 'inline', collapse }) => {
+  const render = (show: (part: DiffPart) => boolean) => parts.map((part, i) => {
+    if (!show(part)) return null;
+    if (part.op === 'delete') return <Deleted key={i} text={part.text} />;
+    if (part.op === 'insert') return <Inserted key={i} text={part.text} />;
+    return <Unchanged key={i} text={part.text} collapse={collapse} first={i === 0} last={i === parts.length - 1} />;
+  });
+
+  if (mode === 'split') {
+    return (
+      <div className="grid grid-cols-2 gap-4 text-sm leading-relaxed">
+        <div className="whitespace-pre-wrap text-gray-700">{render(part => part.op !== 'insert')}</div>
+        <div className="whitespace-pre-wrap text-gray-700 border-l border-gray-100 pl-4">{render(part => part.op !== 'delete')}</div>
+      </div>
+    );
+  }
+  return <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-700">{render(() => true)}</div>;
+};
+
+export default DiffView;
@@ -1,57 +1,201 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { AnalysisType, ChatMessage } from '../types';
-import { analyzeManuscriptText, createRefinementChat } from '../services/geminiService';
-import { Play, CheckCircle, Zap, Scissors, MessageSquare, Clock, RotateCcw, Trash2, ChevronDown, ChevronRight, MessageCircle, Send, User, Bot, BookOpen } from 'lucide-react';
-import { Chat, GenerateContentResponse } from "@google/genai";
-
-interface HistoryItem {
-  id: string;
-  type: AnalysisType;
-  input: string;
-  output: string;
-  timestamp: Date;
-  chatMessages: ChatMessage[]; // For the specific discussion thread
-  isChatOpen: boolean;
-  targetJournal: string; // Track which journal this was polished for
-}
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useSyncExternalStore } from 'react';
+import { AnalysisId, AnalysisType, ChatMessage, HistoryItem, HunkDecision, ManuscriptPartRef, PipelineStage, ServiceError } from '../types';
+import { streamManuscriptAnalysis, createRefinementChat } from '../services/geminiService';
+import { ChatSession } from '../services/llmProvider';
+import { classifyError } from '../services/serviceErrors';
+import { subscribeManuscript, getManuscript, sectionBody, setSectionBody, updateManuscript } from '../services/manuscript';
+import { getWorkspace, updateWorkspace } from '../services/projects';
+import { analysisLabel, parseAnalysisOutput } from '../services/analysisOutput';
+import { diffStats, diffWords } from '../services/textDiff';
+import { DiffSegment, currentDecisions, hunksOf, mergeHunks, toSegments } from '../services/hunks';
+import { subscribeCustomAnalyses, getCustomAnalyses, findCustomAnalysis } from '../services/customAnalyses';
+import { subscribePipelines, getPipelines, findPipeline } from '../services/pipelines';
+import { locateIssues } from '../services/logicIssues';
+import ErrorNotice from './ErrorNotice';
+import HunkReview from './HunkReview';
+import DiffView from './DiffView';
+import LogicIssueList, { SEVERITY_STYLES } from './LogicIssueList';
+import { customAnalysisIcon } from './CustomAnalysisEditor';
+import { Play, CheckCircle, Zap, Scissors, MessageSquare, Clock, RotateCcw, Trash2, ChevronDown, ChevronRight, MessageCircle, Send, User, Bot, BookOpen, Square, Workflow, AlertTriangle, X } from 'lucide-react';
 
 interface EditorProps {
   targetJournal: string;
 }
 
 const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
-  const [inputText, setInputText] = useState('');
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  // Restored from the open project; App remounts the Editor when another project is opened
+  const [inputText, setInputText] = useState(() => getWorkspace().editor?.inputText || '');
+  const manuscript = useSyncExternalStore(subscribeManuscript, getManuscript);
+  const [loadedFrom, setLoadedFrom] = useState<ManuscriptPartRef | null>(() => getWorkspace().editor?.loadedFrom || null);
+  const [history, setHistory] = useState<HistoryItem[]>(() => (getWorkspace().editor?.history || []).map(item => ({
+    ...item,
+    // A reply that was streaming when the project was saved is incomplete
+    chatMessages: item.chatMessages.filter(m => !m.isStreaming),
+    isChatOpen: false,
+    // Saved before rewrite and notes were stored separately
+    ...(item.notes === undefined && parseAnalysisOutput(item.output, item.type))
+  })));
   const [isLoading, setIsLoading] = useState(false);
-  const [analysisType, setAnalysisType] = useState<AnalysisType>(AnalysisType.IMPACT_POLISH);
+  const [analysisType, setAnalysisType] = useState<AnalysisId>(AnalysisType.IMPACT_POLISH);
+  const customAnalyses = useSyncExternalStore(subscribeCustomAnalyses, getCustomAnalyses);
+  const pipelines = useSyncExternalStore(subscribePipelines, getPipelines);
+  // Set when a pipeline rather than a single analysis is selected
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
   const [expandedInputs, setExpandedInputs] = useState<Set<string>>(new Set());
+  // Cards showing the plain rewrite instead of tracked changes
+  const [cleanViews, setCleanViews] = useState<Set<string>>(new Set());
+  // Pipeline stages showing their result against the text the pipeline started from
+  const [originalViews, setOriginalViews] = useState<Set<string>>(new Set());
+  // Change hunks of each card's rewrite; input and rewrite never change once the card exists
+  const rewriteDiffs = useRef<Map<string, DiffSegment[]>>(new Map());
+  const [analysisError, setAnalysisError] = useState<ServiceError | null>(null);
+  // Why Run did nothing: the selected pipeline or analysis was deleted in Settings
+  const [selectionNotice, setSelectionNotice] = useState<string | null>(null);
+  // Card whose Logic Check issues are highlighted in the input, and the issue last selected in its list
+  const [issueFocus, setIssueFocus] = useState<{ itemId: string; issue: number | null } | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+  // Re-run against the model even if an identical request is cached
+  const [bypassCache, setBypassCache] = useState(false);
+  // Output of the running analysis; only added to history once the stream completes
+  const [streaming, setStreaming] = useState<{ type: AnalysisId; text: string; stage?: PipelineStage } | null>(null);
   
   // Map to store active chat sessions for each history item
-  const chatSessions = useRef<Map<string, Chat>>(new Map());
+  const chatSessions = useRef<Map<string, ChatSession>>(new Map());
+  // In-flight refinement replies, so each can be stopped individually
+  const chatAborts = useRef<Map<string, AbortController>>(new Map());
   // Input state for the refinement chat box of each item
   const [chatInputs, setChatInputs] = useState<Record<string, string>>({});
+  // Failed refinement replies, kept with the message so it can be resent
+  const [chatErrors, setChatErrors] = useState<Record<string, { error: ServiceError; message: string }>>({});
 
-  const handleAnalyze = async () => {
-    if (!inputText.trim()) return;
-    setIsLoading(true);
-    const response = await analyzeManuscriptText(inputText, analysisType, targetJournal);
+  // The state as restored (history is rebuilt above, so it never equals the saved array): until the
+  // first change, there is nothing to save and opening the project doesn't count as an edit
+  const restored = useRef<{ inputText: string; history: HistoryItem[]; loadedFrom: ManuscriptPartRef | null } | null>({ inputText, history, loadedFrom });
+
+  useEffect(() => {
+    const r = restored.current;
+    if (r && r.inputText === inputText && r.history === history && r.loadedFrom === loadedFrom) return;
+    restored.current = null;
+    updateWorkspace('editor', { inputText, history, loadedFrom });
+  }, [inputText, history, loadedFrom]);
+
+  // Issue spans are located in the current input, so they follow edits for as long as the quoted text is there
+  const highlighted = history.find(item => item.id === issueFocus?.itemId)?.logicCheck;
+  const issueSpans = useMemo(() => locateIssues(inputText, highlighted?.issues), [inputText, highlighted]);
+  // Per Logic Check card, the issues whose quote is in the current input
+  const locatedIssues = useMemo(() => new Map(history
+    .filter(item => item.logicCheck)
+    .map(item => [item.id, new Set(locateIssues(inputText, item.logicCheck!.issues).map(s => s.issue))])
+  ), [inputText, history]);
+
+  // The highlight layer scrolls with the textarea it sits on
+  useLayoutEffect(() => {
+    if (highlightRef.current && inputRef.current) highlightRef.current.scrollTop = inputRef.current.scrollTop;
+  });
+
+  // Selecting an issue in a card selects its span in the input and scrolls it into view. Only a new
+  // selection does: rerunning when edits move the spans would pull the caret away while typing.
+  useEffect(() => {
+    const span = issueSpans.find(s => s.issue === issueFocus?.issue);
+    const textarea = inputRef.current;
+    if (!span || !textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(span.start, span.end);
+    const mark = highlightRef.current?.querySelector<HTMLElement>(`[data-issue="${span.issue}"]`);
+    if (mark) textarea.scrollTop = Math.max(0, mark.offsetTop - textarea.clientHeight / 3);
+  }, [issueFocus]);
+
+  const isKnownAnalysis = (type: AnalysisId) => !!findCustomAnalysis(type) || Object.values(AnalysisType).includes(type as AnalysisType);
+
+  // Runs one analysis into history; null when it was stopped or failed
+  const runAnalysis = async (text: string, type: AnalysisId, controller: AbortController, stage?: PipelineStage): Promise<HistoryItem | null> => {
+    const custom = findCustomAnalysis(type);
+    setStreaming({ type, text: '', stage });
+    const result = await streamManuscriptAnalysis(text, type, targetJournal, partial => setStreaming({ type, text: partial, stage }), { signal: controller.signal, forceRefresh: bypassCache });
+    setStreaming(null);
+
+    // Stopped by the user: drop whatever came back
+    if (controller.signal.aborted) return null;
+
+    // Failures are shown as an actionable notice, never saved as history content
+    if (result.status === 'error') {
+      setAnalysisError(result.error);
+      return null;
+    }
     
     const newItem: HistoryItem = {
-      id: Date.now().toString(),
-      type: analysisType,
-      input: inputText,
-      output: response,
+      id: stage ? `${stage.runId}-${stage.step}` : Date.now().toString(),
+      type,
+      ...(custom && { analysisName: custom.name }),
+      input: text,
+      output: result.value.text,
+      rewrite: result.value.rewrite,
+      notes: result.value.notes,
+      ...(loadedFrom && { loadedFrom }),
+      ...(stage && { pipeline: stage }),
+      ...(result.value.logicCheck && { logicCheck: result.value.logicCheck }),
       timestamp: new Date(),
       chatMessages: [],
       isChatOpen: false,
-      targetJournal: targetJournal
+      targetJournal: targetJournal,
+      promptVersions: result.value.promptVersions
     };
 
     setHistory(prev => [newItem, ...prev]);
-    setIsLoading(false);
+    if (newItem.logicCheck) setIssueFocus({ itemId: newItem.id, issue: null });
+    return newItem;
+  };
+
+  const handleAnalyze = async () => {
+    if (!inputText.trim()) return;
+    const pipeline = pipelineId ? findPipeline(pipelineId) : undefined;
+    // A pipeline or custom analysis deleted in Settings since it was selected
+    if (pipelineId && (!pipeline || !pipeline.steps.every(isKnownAnalysis))) {
+      setSelectionNotice(pipeline
+        ? `The "${pipeline.name}" pipeline uses deleted analyses (${pipeline.steps.filter(step => !isKnownAnalysis(step)).join(', ')}). Edit it in Settings or choose another analysis.`
+        : `The selected pipeline was deleted in Settings. Choose an analysis or another pipeline.`);
+      setPipelineId(null);
+      return;
+    }
+    if (!pipeline && !isKnownAnalysis(analysisType)) {
+      setSelectionNotice(`The custom analysis "${analysisType}" was deleted in Settings; Impact Polish is selected instead.`);
+      setAnalysisType(AnalysisType.IMPACT_POLISH);
+      return;
+    }
+    const steps = pipeline ? pipeline.steps : [analysisType];
+    setIsLoading(true);
+    setAnalysisError(null);
+    setSelectionNotice(null);
+    const controller = new AbortController();
+    analysisAbort.current = controller;
+    const runId = Date.now().toString();
+    let text = inputText;
+    try {
+      for (const [i, type] of steps.entries()) {
+        const stage = pipeline && { runId, name: pipeline.name, step: i + 1, steps: steps.length };
+        const item = await runAnalysis(text, type, controller, stage);
+        // Stages already done stay in history; a retry gets them back from the response cache
+        if (!item) break;
+        // A critique leaves the text unchanged for the next step
+        text = item.rewrite ?? text;
+      }
+    } finally {
+      analysisAbort.current = null;
+      setStreaming(null);
+      setIsLoading(false);
+    }
+  };
+
+  const selectAnalysis = (type: AnalysisId) => {
+    setAnalysisType(type);
+    setPipelineId(null);
   };
 
+  const stopAnalysis = () => analysisAbort.current?.abort();
+
   const toggleInputExpand = (id: string) => {
     const newSet = new Set(expandedInputs);
     if (newSet.has(id)) {
@@ -62,14 +206,111 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
     setExpandedInputs(newSet);
   };
 
+  const toggleCleanView = (id: string) => {
+    setCleanViews(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleOriginalView = (id: string) => {
+    setOriginalViews(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // The text a pipeline run started from; a stage's own input is the previous stage's rewrite
+  const originalInput = (item: HistoryItem) => {
+    const stage = item.pipeline;
+    return stage ? history.find(h => h.pipeline?.runId === stage.runId && h.pipeline.step === 1)?.input ?? item.input : item.input;
+  };
+
+  const rewriteDiff = (item: HistoryItem) => {
+    let segments = rewriteDiffs.current.get(item.id);
+    if (!segments) {
+      segments = toSegments(diffWords(item.input, item.rewrite || ''));
+      rewriteDiffs.current.set(item.id, segments);
+    }
+    return segments;
+  };
+
+  const addDecisions = (itemId: string, decisions: Omit<HunkDecision, 'decidedAt'>[]) => {
+    const decidedAt = Date.now();
+    setHistory(prev => prev.map(item =>
+      item.id === itemId
+        ? { ...item, decisions: [...(item.decisions || []), ...decisions.map(d => ({ ...d, decidedAt }))] }
+        : item
+    ));
+  };
+
+  // Accepts or rejects every change not yet decided
+  const decideRemaining = (item: HistoryItem, status: 'accepted' | 'rejected') => {
+    const decided = currentDecisions(item.decisions);
+    addDecisions(item.id, hunksOf(rewriteDiff(item)).filter(h => !decided.has(h.index)).map(h => ({ hunk: h.index, status })));
+  };
+
+  // The analyzed text inside `target` (for pipeline stages, the text the pipeline started from) replaced by
+  // the reviewed result, or null when it is no longer there
+  const spliceResult = (target: string, item: HistoryItem) => {
+    const original = originalInput(item).trim();
+    return target.includes(original) ? target.replace(original, () => mergeHunks(rewriteDiff(item), item.decisions).trim()) : null;
+  };
+
+  const applyToInput = (item: HistoryItem) => {
+    const next = spliceResult(inputText, item);
+    if (next !== null) {
+      setInputText(next);
+    } else if (window.confirm('The input no longer contains the analyzed text. Replace the whole input with the reviewed result?')) {
+      setInputText(mergeHunks(rewriteDiff(item), item.decisions).trim());
+    }
+  };
+
+  const applyToManuscript = (item: HistoryItem) => {
+    const part = item.loadedFrom && manuscriptPart(item.loadedFrom.source);
+    const next = part !== undefined && spliceResult(part, item);
+    if (!item.loadedFrom || !next) return;
+    if (item.loadedFrom.source === 'abstract') updateManuscript({ abstract: next });
+    else setSectionBody(item.loadedFrom.source, next);
+  };
+
   const restoreInput = (text: string) => {
     if (window.confirm('Replace current editor content with this historical input?')) {
       setInputText(text);
     }
   };
 
+  const manuscriptPart = (source: string) => {
+    const section = manuscript.sections.find(s => s.id === source);
+    return source === 'abstract' ? manuscript.abstract : section ? sectionBody(section) : undefined;
+  };
+
+  // Loads the abstract or a section of the shared manuscript into the input
+  const loadFromManuscript = (source: string) => {
+    const text = manuscriptPart(source);
+    if (!text || text === inputText) return;
+    if (!inputText.trim() || window.confirm('Replace current editor content with this part of the manuscript?')) {
+      setInputText(text);
+      setLoadedFrom({ source, title: source === 'abstract' ? 'Abstract' : manuscript.sections.find(s => s.id === source)!.title });
+    }
+  };
+
+  // Writes the edited input back over the part of the manuscript it was loaded from
+  const saveToManuscript = () => {
+    if (!loadedFrom) return;
+    if (loadedFrom.source === 'abstract') updateManuscript({ abstract: inputText.trim() });
+    else setSectionBody(loadedFrom.source, inputText);
+  };
+  const loadedText = loadedFrom ? manuscriptPart(loadedFrom.source) : undefined;
+  const canSaveToManuscript = loadedText !== undefined && loadedText !== inputText.trim() && !!inputText.trim();
+
   const clearHistory = () => {
     if (window.confirm('Clear all analysis history?')) {
+      chatAborts.current.forEach(controller => controller.abort());
       setHistory([]);
       chatSessions.current.clear();
     }
@@ -81,7 +322,10 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
         // Initialize session if not exists
         if (!chatSessions.current.has(itemId) && !item.isChatOpen) {
            // Use the journal from history, not current state, to maintain consistency
-           chatSessions.current.set(itemId, createRefinementChat(item.input, item.output, item.type, item.targetJournal));
+           // Resume a restored thread; a question left without a reply is not part of it
+           const turns = item.chatMessages.map(m => ({ role: m.role, text: m.text }));
+           if (turns[turns.length - 1]?.role === 'user') turns.pop();
+           chatSessions.current.set(itemId, createRefinementChat(item.input, item.output, item.analysisName || item.type, item.targetJournal, turns));
         }
         return { ...item, isChatOpen: !item.isChatOpen };
       }
@@ -105,8 +349,21 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
     ));
     setChatInputs(prev => ({ ...prev, [itemId]: '' }));
 
+    await streamChatReply(itemId, input);
+  };
+
+  const streamChatReply = async (itemId: string, input: string) => {
+    const session = chatSessions.current.get(itemId);
+    if (!session) return;
+    setChatErrors(prev => {
+      const { [itemId]: _, ...rest } = prev;
+      return rest;
+    });
+
     // Stream response
     const aiMsgId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    chatAborts.current.set(itemId, controller);
     setHistory(prev => prev.map(item => 
       item.id === itemId 
         ? { ...item, chatMessages: [...item.chatMessages, { id: aiMsgId, role: 'model', text: '', isStreaming: true }] } 
@@ -114,13 +371,11 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
     ));
 
     try {
-      const resultStream = await session.sendMessageStream({ message: input });
       let fullText = '';
       
-      for await (const chunk of resultStream) {
-        const c = chunk as GenerateContentResponse;
-        if (c.text) {
-          fullText += c.text;
+      for await (const chunk of session.sendMessageStream(input, controller.signal)) {
+        if (chunk) {
+          fullText += chunk;
           setHistory(prev => prev.map(item => {
             if (item.id === itemId) {
                const newMsgs = item.chatMessages.map(m => m.id === aiMsgId ? { ...m, text: fullText } : m);
@@ -140,25 +395,71 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
       }));
 
     } catch (error) {
-      console.error("Chat error", error);
-      setHistory(prev => prev.map(item => 
-        item.id === itemId 
-          ? { ...item, chatMessages: [...item.chatMessages, { id: Date.now().toString(), role: 'model', text: "Error generating response." }] } 
-          : item
-      ));
+      const stopped = controller.signal.aborted;
+      // Drop the partial reply; the session did not commit this turn so it can be resent as-is
+      setHistory(prev => prev.map(item => {
+        if (item.id !== itemId) return item;
+        let msgs = item.chatMessages.filter(m => m.id !== aiMsgId);
+        // A stopped turn is withdrawn entirely and the question goes back into the input box
+        if (stopped && msgs[msgs.length - 1]?.role === 'user') msgs = msgs.slice(0, -1);
+        return { ...item, chatMessages: msgs };
+      }));
+      if (stopped) {
+        setChatInputs(prev => ({ ...prev, [itemId]: input }));
+      } else {
+        console.error("Chat error", error);
+        setChatErrors(prev => ({ ...prev, [itemId]: { error: classifyError(error), message: input } }));
+      }
+    } finally {
+      chatAborts.current.delete(itemId);
     }
   };
 
-  const getTypeLabel = (type: AnalysisType) => {
+  const getTypeLabel = (type: AnalysisId, name?: string) => {
     switch (type) {
       case AnalysisType.IMPACT_POLISH: return { label: 'Impact Polish', icon: Zap, color: 'text-amber-600', bg: 'bg-amber-100' };
       case AnalysisType.LOGIC_CHECK: return { label: 'Logic Check', icon: CheckCircle, color: 'text-blue-600', bg: 'bg-blue-100' };
       case AnalysisType.CONCISENESS: return { label: 'Conciseness', icon: Scissors, color: 'text-green-600', bg: 'bg-green-100' };
       case AnalysisType.REBUTTAL: return { label: 'Rebuttal', icon: MessageSquare, color: 'text-purple-600', bg: 'bg-purple-100' };
-      default: return { label: 'Analysis', icon: Play, color: 'text-gray-600', bg: 'bg-gray-100' };
+      default: {
+        // Custom analyses keep their saved name on the card even after being renamed or deleted
+        const custom = findCustomAnalysis(type);
+        return { label: name || custom?.name || 'Analysis', icon: customAnalysisIcon(custom?.icon), color: 'text-teal-700', bg: 'bg-teal-100' };
+      }
+    }
+  };
+
+  // The input text with the highlighted issues' spans marked; overlapping spans are cut at the previous one's end
+  const renderIssueHighlights = () => {
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const span of issueSpans) {
+      if (span.end <= cursor) continue;
+      const start = Math.max(span.start, cursor);
+      const issue = highlighted!.issues[span.issue];
+      nodes.push(inputText.slice(cursor, start));
+      nodes.push(
+        <mark
+          key={span.issue}
+          data-issue={span.issue}
+          className={`text-transparent rounded-sm ${SEVERITY_STYLES[issue.severity].mark} ${issueFocus?.issue === span.issue ? 'ring-2 ring-natureRed' : ''}`}
+        >
+          {inputText.slice(start, span.end)}
+        </mark>
+      );
+      cursor = span.end;
     }
+    // A trailing newline keeps the last line's height the same as in the textarea
+    nodes.push(`${inputText.slice(cursor)}\n`);
+    return nodes;
   };
 
+  const pipelineBadge = (stage: PipelineStage) => (
+    <span className="flex items-center text-xs font-medium text-gray-500" title="Pipeline stage">
+      <Workflow className="w-3 h-3 mr-1" /> {stage.name} · {stage.step}/{stage.steps}
+    </span>
+  );
+
   return (
     <div className="flex h-full">
       {/* Input Area */}
@@ -167,7 +468,31 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
         {/* Header / Settings */}
         <div className="p-4 border-b border-gray-200 bg-gray-50 space-y-4">
            <div className="flex justify-between items-center">
-              <h2 className="font-serif font-semibold text-natureDark">Input Text</h2>
+              <div className="flex items-center space-x-3">
+                <h2 className="font-serif font-semibold text-natureDark">Input Text</h2>
+                {(manuscript.abstract || manuscript.sections.length > 0) && (
+                  <select
+                    value=""
+                    onChange={(e) => loadFromManuscript(e.target.value)}
+                    className="text-xs text-gray-600 bg-white border border-gray-200 rounded px-2 py-1 outline-none focus:border-natureRed"
+                  >
+                    <option value="" disabled>Load from manuscript...</option>
+                    {manuscript.abstract && <option value="abstract">Abstract</option>}
+                    {manuscript.sections.filter(s => sectionBody(s) && !(manuscript.abstract && s.title === 'Abstract')).map(s => (
+                      <option key={s.id} value={s.id}>{s.title}</option>
+                    ))}
+                  </select>
+                )}
+                {canSaveToManuscript && (
+                  <button
+                    onClick={saveToManuscript}
+                    title="Replace this part of the shared manuscript with the input text"
+                    className="text-xs font-bold text-natureRed bg-white border border-natureRed/40 rounded px-2 py-1 hover:bg-red-50 transition-colors"
+                  >
+                    Save to {loadedFrom!.title}
+                  </button>
+                )}
+              </div>
               
               {/* Journal Display */}
               <div className="flex items-center space-x-2 bg-white rounded-md border border-gray-200 px-2 py-1">
@@ -177,71 +502,139 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
               </div>
            </div>
 
-          <div className="flex space-x-2">
+          <div className="flex flex-wrap gap-2">
             <button
-              onClick={() => setAnalysisType(AnalysisType.IMPACT_POLISH)}
+              onClick={() => selectAnalysis(AnalysisType.IMPACT_POLISH)}
               className={`px-3 py-1.5 text-xs font-medium rounded-full flex items-center transition-all ${
-                analysisType === AnalysisType.IMPACT_POLISH ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                !pipelineId && analysisType === AnalysisType.IMPACT_POLISH ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
               }`}
             >
               <Zap className="w-3 h-3 mr-1" /> Polish
             </button>
             <button
-              onClick={() => setAnalysisType(AnalysisType.LOGIC_CHECK)}
+              onClick={() => selectAnalysis(AnalysisType.LOGIC_CHECK)}
               className={`px-3 py-1.5 text-xs font-medium rounded-full flex items-center transition-all ${
-                analysisType === AnalysisType.LOGIC_CHECK ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                !pipelineId && analysisType === AnalysisType.LOGIC_CHECK ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
               }`}
             >
               <CheckCircle className="w-3 h-3 mr-1" /> Logic
             </button>
             <button
-              onClick={() => setAnalysisType(AnalysisType.CONCISENESS)}
+              onClick={() => selectAnalysis(AnalysisType.CONCISENESS)}
               className={`px-3 py-1.5 text-xs font-medium rounded-full flex items-center transition-all ${
-                analysisType === AnalysisType.CONCISENESS ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                !pipelineId && analysisType === AnalysisType.CONCISENESS ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
               }`}
             >
               <Scissors className="w-3 h-3 mr-1" /> Shorten
             </button>
             <button
-              onClick={() => setAnalysisType(AnalysisType.REBUTTAL)}
+              onClick={() => selectAnalysis(AnalysisType.REBUTTAL)}
               className={`px-3 py-1.5 text-xs font-medium rounded-full flex items-center transition-all ${
-                analysisType === AnalysisType.REBUTTAL ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                !pipelineId && analysisType === AnalysisType.REBUTTAL ? 'bg-natureDark text-white shadow-md' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
               }`}
             >
               <MessageSquare className="w-3 h-3 mr-1" /> Rebuttal
             </button>
+            {customAnalyses.map(custom => {
+              const Icon = customAnalysisIcon(custom.icon);
+              return (
+                <button
+                  key={custom.id}
+                  onClick={() => selectAnalysis(custom.id)}
+                  title={`${custom.output === 'rewrite' ? 'Rewrite' : 'Critique'} · defined in Settings`}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-full flex items-center transition-all ${
+                    !pipelineId && analysisType === custom.id ? 'bg-natureDark text-white shadow-md' : 'bg-teal-50 text-teal-800 hover:bg-teal-100'
+                  }`}
+                >
+                  <Icon className="w-3 h-3 mr-1" /> {custom.name}
+                </button>
+              );
+            })}
           </div>
+          {pipelines.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Pipelines</span>
+              {pipelines.map(pipeline => {
+                const missing = pipeline.steps.filter(step => !isKnownAnalysis(step));
+                return (
+                  <button
+                    key={pipeline.id}
+                    onClick={() => setPipelineId(pipeline.id)}
+                    disabled={missing.length > 0 || !pipeline.steps.length}
+                    title={missing.length ? `Uses deleted analyses: ${missing.join(', ')}` : pipeline.steps.map(step => analysisLabel(step)).join(' → ')}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-full flex items-center transition-all disabled:opacity-40 ${
+                      pipelineId === pipeline.id ? 'bg-natureDark text-white shadow-md' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Workflow className="w-3 h-3 mr-1" /> {pipeline.name}
+                    <span className="ml-1.5 opacity-60">{pipeline.steps.length}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
 
-        <textarea
-          className="flex-1 p-6 resize-none outline-none font-serif text-lg leading-relaxed text-gray-800 placeholder-gray-300 focus:bg-gray-50 transition-colors"
-          placeholder={`Paste your text for ${targetJournal} here...`}
-          value={inputText}
-          onChange={(e) => setInputText(e.target.value)}
-        />
+        <div className="relative flex-1">
+          <textarea
+            ref={inputRef}
+            className="absolute inset-0 w-full h-full p-6 resize-none outline-none font-serif text-lg leading-relaxed text-gray-800 placeholder-gray-300 focus:bg-gray-50 transition-colors"
+            style={{ scrollbarGutter: 'stable' }}
+            placeholder={`Paste your text for ${targetJournal} here...`}
+            value={inputText}
+            onChange={(e) => setInputText(e.target.value)}
+            onScroll={(e) => {
+              if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+            }}
+          />
+          {/* Logic Check spans, drawn over the textarea in the same layout with transparent text */}
+          {issueSpans.length > 0 && (
+            <div
+              ref={highlightRef}
+              aria-hidden
+              className="absolute inset-0 p-6 overflow-hidden whitespace-pre-wrap break-words font-serif text-lg leading-relaxed text-transparent pointer-events-none"
+              style={{ scrollbarGutter: 'stable' }}
+            >
+              {renderIssueHighlights()}
+            </div>
+          )}
+        </div>
         
         <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-between items-center">
-           <div className="text-xs text-gray-400">
-             {inputText.length > 0 && `${inputText.split(/\s+/).filter(w => w.length > 0).length} words`}
+           <div className="flex items-center space-x-4 text-xs text-gray-400">
+             <span>{inputText.length > 0 && `${inputText.split(/\s+/).filter(w => w.length > 0).length} words`}</span>
+             <label className="flex items-center cursor-pointer" title="Ignore cached results for identical text">
+               <input
+                 type="checkbox"
+                 className="mr-1.5 accent-natureRed"
+                 checked={bypassCache}
+                 onChange={(e) => setBypassCache(e.target.checked)}
+               />
+               Bypass cache
+             </label>
            </div>
-          <button
-            onClick={handleAnalyze}
-            disabled={isLoading || !inputText.trim()}
-            className={`flex items-center px-6 py-2 rounded-md font-semibold text-white transition-all ${
-              isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-natureRed hover:bg-red-700 shadow-md hover:shadow-lg'
-            }`}
-          >
-            {isLoading ? (
-              <span className="flex items-center">
+          {isLoading ? (
+            <div className="flex items-center space-x-2">
+              <span className="flex items-center px-4 py-2 rounded-md font-semibold text-white bg-gray-400 cursor-not-allowed">
                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
                  Analyzing...
               </span>
-            ) : (
-              <>
-                <Play className="w-4 h-4 mr-2 fill-current" /> Run Analysis
-              </>
-            )}
-          </button>
+              <button
+                onClick={stopAnalysis}
+                className="flex items-center px-4 py-2 rounded-md font-semibold text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 transition-all"
+              >
+                <Square className="w-4 h-4 mr-2 fill-current" /> Stop
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleAnalyze}
+              disabled={!inputText.trim()}
+              className="flex items-center px-6 py-2 rounded-md font-semibold text-white transition-all bg-natureRed hover:bg-red-700 shadow-md hover:shadow-lg disabled:bg-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+            >
+              <Play className="w-4 h-4 mr-2 fill-current" /> {pipelineId ? 'Run Pipeline' : 'Run Analysis'}
+            </button>
+          )}
         </div>
       </div>
 
@@ -263,11 +656,39 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
         </div>
         
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {selectionNotice && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2 flex items-start" role="alert">
+              <AlertTriangle className="w-3 h-3 mr-1.5 mt-0.5 flex-shrink-0" />
+              <span className="flex-1">{selectionNotice}</span>
+              <button onClick={() => setSelectionNotice(null)} className="ml-2 text-amber-500 hover:text-amber-800" title="Dismiss">
+                <X className="w-3 h-3" />
+              </button>
+            </p>
+          )}
+          {analysisError && (
+            <ErrorNotice error={analysisError} onRetry={handleAnalyze} onDismiss={() => setAnalysisError(null)} />
+          )}
+          {streaming && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100 flex items-center space-x-3 bg-gray-50/50">
+                <span className={`flex items-center px-2.5 py-0.5 rounded-full text-xs font-bold uppercase tracking-wide ${getTypeLabel(streaming.type).bg} ${getTypeLabel(streaming.type).color}`}>
+                  {getTypeLabel(streaming.type).label}
+                </span>
+                {streaming.stage && pipelineBadge(streaming.stage)}
+                <span className="text-xs text-gray-400">Writing...</span>
+              </div>
+              <div className="p-6 text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+                {streaming.text}
+                <span className="inline-block w-1 h-4 ml-1 bg-natureRed animate-pulse align-middle" />
+              </div>
+            </div>
+          )}
           {history.length > 0 ? (
             history.map((item) => {
-              const style = getTypeLabel(item.type);
+              const style = getTypeLabel(item.type, item.analysisName);
               const isExpanded = expandedInputs.has(item.id);
               const hasChatMessages = item.chatMessages.length > 0;
+              const isReplying = item.chatMessages.some(m => m.isStreaming);
               
               return (
                 <div key={item.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden transition-all hover:shadow-md">
@@ -278,6 +699,7 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
                         <style.icon className="w-3 h-3 mr-1.5" />
                         {style.label}
                       </span>
+                      {item.pipeline && pipelineBadge(item.pipeline)}
                       
                       {/* Journal Badge */}
                       <span className="flex items-center px-2 py-0.5 rounded border border-gray-200 bg-white text-xs font-medium text-gray-600">
@@ -287,6 +709,13 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
                       <span className="text-xs text-gray-400 font-mono">
                         {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                       </span>
+
+                      <span
+                        className={`text-xs font-mono ${item.promptVersions.some(v => v.includes('+custom')) ? 'text-amber-600' : 'text-gray-300'}`}
+                        title={`Prompt templates: ${item.promptVersions.join(', ')}`}
+                      >
+                        {item.promptVersions.some(v => v.includes('+custom')) ? 'custom prompt' : `prompt ${item.promptVersions[item.promptVersions.length - 1]?.split('@')[1]}`}
+                      </span>
                     </div>
                     <button 
                       onClick={() => restoreInput(item.input)}
@@ -313,11 +742,113 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
                     )}
                   </div>
 
-                  {/* AI Output */}
-                  <div className="p-6">
-                     <div className="prose prose-sm prose-headings:font-serif prose-p:font-sans prose-p:leading-relaxed max-w-none text-gray-800">
-                       <div className="whitespace-pre-wrap">{item.output}</div>
-                     </div>
+                  {/* AI Output: the rewrite as tracked changes against the input, then the notes */}
+                  <div className="p-6 space-y-5">
+                     {item.rewrite !== undefined && (() => {
+                       const isClean = cleanViews.has(item.id);
+                       // Later pipeline stages can also be compared with the text the pipeline started from
+                       const canShowOriginal = !!item.pipeline && item.pipeline.step > 1;
+                       const isOriginal = canShowOriginal && originalViews.has(item.id);
+                       const segments = rewriteDiff(item);
+                       const hunkCount = hunksOf(segments).length;
+                       const decided = currentDecisions(item.decisions);
+                       const stats = diffStats(hunksOf(segments).flatMap(h => [{ op: 'delete' as const, text: h.before }, { op: 'insert' as const, text: h.after }]));
+                       const manuscriptTarget = item.loadedFrom && manuscriptPart(item.loadedFrom.source);
+                       const canApplyToManuscript = manuscriptTarget !== undefined && spliceResult(manuscriptTarget, item) !== null;
+                       return (
+                         <div>
+                           <div className="flex items-center justify-between mb-2">
+                             <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+                               {isOriginal ? 'Changes Since Original' : isClean ? 'Result' : 'Tracked Changes'}
+                             </span>
+                             <div className="flex items-center space-x-3">
+                               <span className="text-[10px] text-gray-400">+{stats.insertedWords} / −{stats.deletedWords} words</span>
+                               {canShowOriginal && (
+                                 <button
+                                   onClick={() => toggleOriginalView(item.id)}
+                                   title="Compare this stage's reviewed result with the text the pipeline started from"
+                                   className="text-xs text-gray-400 hover:text-natureDark transition-colors"
+                                 >
+                                   {isOriginal ? 'Show this stage' : 'Vs. original'}
+                                 </button>
+                               )}
+                               {!isOriginal && (
+                                 <button
+                                   onClick={() => toggleCleanView(item.id)}
+                                   className="text-xs text-gray-400 hover:text-natureDark transition-colors"
+                                 >
+                                   {isClean ? 'Show changes' : 'Show clean'}
+                                 </button>
+                               )}
+                             </div>
+                           </div>
+                           {isOriginal
+                             ? <DiffView parts={diffWords(originalInput(item), mergeHunks(segments, item.decisions))} />
+                             : isClean
+                             ? <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">{mergeHunks(segments, item.decisions)}</div>
+                             : <HunkReview segments={segments} decisions={item.decisions} onDecide={(hunk, status, text) => addDecisions(item.id, [{ hunk, status, text }])} />}
+                           {hunkCount > 0 && (
+                             <div className="flex flex-wrap items-center gap-x-3 gap-y-2 mt-3 pt-3 border-t border-gray-100 text-xs">
+                               <span className="text-gray-400">{decided.size} of {hunkCount} changes reviewed</span>
+                               {decided.size < hunkCount && (
+                                 <>
+                                   <button onClick={() => decideRemaining(item, 'accepted')} className="text-green-700 hover:underline">Accept rest</button>
+                                   <button onClick={() => decideRemaining(item, 'rejected')} className="text-red-600 hover:underline">Reject rest</button>
+                                 </>
+                               )}
+                               <span className="flex-1" />
+                               <button
+                                 onClick={() => applyToInput(item)}
+                                 title="Replace the analyzed text in the input with the accepted and edited changes"
+                                 className="font-bold text-natureDark border border-gray-300 rounded px-2 py-1 hover:bg-gray-50 transition-colors"
+                               >
+                                 Apply to input
+                               </button>
+                               {item.loadedFrom && (
+                                 <button
+                                   onClick={() => applyToManuscript(item)}
+                                   disabled={!canApplyToManuscript}
+                                   title={canApplyToManuscript ? 'Write the reviewed text into the shared manuscript' : `${item.loadedFrom.title} no longer contains the analyzed text`}
+                                   className="font-bold text-natureRed border border-natureRed/40 rounded px-2 py-1 hover:bg-red-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                                 >
+                                   Apply to {item.loadedFrom.title}
+                                 </button>
+                               )}
+                             </div>
+                           )}
+                         </div>
+                       );
+                     })()}
+                     {item.logicCheck ? (
+                       <div>
+                         <div className="flex items-center justify-between mb-2">
+                           <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">Issues ({item.logicCheck.issues.length})</span>
+                           {item.logicCheck.issues.length > 0 && (
+                             <button
+                               onClick={() => setIssueFocus(issueFocus?.itemId === item.id ? null : { itemId: item.id, issue: null })}
+                               className="text-xs text-gray-400 hover:text-natureDark transition-colors"
+                             >
+                               {issueFocus?.itemId === item.id ? 'Hide highlights' : 'Highlight in input'}
+                             </button>
+                           )}
+                         </div>
+                         <LogicIssueList
+                           logicCheck={item.logicCheck}
+                           located={locatedIssues.get(item.id) || new Set()}
+                           activeIssue={issueFocus?.itemId === item.id ? issueFocus.issue : null}
+                           onSelect={(issue) => setIssueFocus({ itemId: item.id, issue })}
+                         />
+                       </div>
+                     ) : (item.notes ?? item.output) && (
+                       <div>
+                         {item.rewrite !== undefined && (
+                           <span className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Editor's Notes</span>
+                         )}
+                         <div className="prose prose-sm prose-headings:font-serif prose-p:font-sans prose-p:leading-relaxed max-w-none text-gray-800">
+                           <div className="whitespace-pre-wrap">{item.notes ?? item.output}</div>
+                         </div>
+                       </div>
+                     )}
                   </div>
 
                   {/* Inline Chat Section */}
@@ -356,6 +887,16 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
                             ))}
                          </div>
                          
+                         {chatErrors[item.id] && (
+                           <div className="mb-3">
+                             <ErrorNotice
+                               compact
+                               error={chatErrors[item.id].error}
+                               onRetry={() => streamChatReply(item.id, chatErrors[item.id].message)}
+                             />
+                           </div>
+                         )}
+
                          {/* Chat Input */}
                          <div className="flex items-center relative">
                            <input 
@@ -371,13 +912,23 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
                                 }
                               }}
                            />
-                           <button 
-                             onClick={() => handleSendChat(item.id)}
-                             disabled={!chatInputs[item.id]?.trim()}
-                             className="absolute right-2 p-1 text-natureRed hover:bg-red-50 rounded disabled:opacity-50 disabled:hover:bg-transparent"
-                           >
-                             <Send className="w-4 h-4" />
-                           </button>
+                           {isReplying ? (
+                             <button 
+                               onClick={() => chatAborts.current.get(item.id)?.abort()}
+                               title="Stop reply"
+                               className="absolute right-2 p-1 text-gray-500 hover:bg-gray-100 rounded"
+                             >
+                               <Square className="w-4 h-4 fill-current" />
+                             </button>
+                           ) : (
+                             <button 
+                               onClick={() => handleSendChat(item.id)}
+                               disabled={!chatInputs[item.id]?.trim()}
+                               className="absolute right-2 p-1 text-natureRed hover:bg-red-50 rounded disabled:opacity-50 disabled:hover:bg-transparent"
+                             >
+                               <Send className="w-4 h-4" />
+                             </button>
+                           )}
                          </div>
                       </div>
                     )}
@@ -385,7 +936,7 @@ const Editor: React.FC<EditorProps> = ({ targetJournal }) => {
                 </div>
               );
             })
-          ) : (
+          ) : !streaming && (
             <div className="h-full flex flex-col items-center justify-center text-gray-400 opacity-60">
               <div className="w-20 h-20 rounded-full bg-gray-200 flex items-center justify-center mb-6">
                 <Play className="w-8 h-8 text-gray-400 ml-1" />
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ServiceError } from '../types';
+import { ERROR_COPY } from '../services/serviceErrors';
+import { AlertCircle, RefreshCw, X } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  error: ServiceError;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  compact?: boolean;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss, compact }) => {
+  const copy = ERROR_COPY[error.kind];
+
+  return (
+    <div className={`bg-red-50 border border-red-200 rounded-lg flex items-start ${compact ? 'p-3' : 'p-4'}`} role="alert">
+      <AlertCircle className={`text-natureRed flex-shrink-0 mr-3 ${compact ? 'w-4 h-4' : 'w-5 h-5 mt-0.5'}`} />
+      <div className="flex-1 min-w-0">
+        <p className={`font-bold text-red-900 ${compact ? 'text-xs' : 'text-sm'}`}>{copy.title}</p>
+        <p className={`text-red-800 mt-1 leading-relaxed ${compact ? 'text-xs' : 'text-sm'}`} title={error.message}>{copy.advice}</p>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="mt-3 px-3 py-1.5 text-xs font-bold text-white bg-natureRed hover:bg-red-700 rounded flex items-center transition-colors"
+          >
+            <RefreshCw className="w-3 h-3 mr-2" /> Retry
+          </button>
+        )}
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="text-red-400 hover:text-red-700 ml-2" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
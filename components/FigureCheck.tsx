@@ -1,32 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { generateOrEditFigure } from '../services/geminiService';
-import { Upload, Image as ImageIcon, AlertCircle, Send, Bot, User, Download, RotateCcw, MessageCircle, Wand2, Eye, History, Monitor, Maximize2, FileText, ChevronDown, Sparkles, Zap, Copy } from 'lucide-react';
+import { getActiveModels } from '../services/llmProvider';
+import { FigureMessage, ServiceError } from '../types';
+import { getWorkspace, updateWorkspace } from '../services/projects';
+import ErrorNotice from './ErrorNotice';
+import { Upload, Image as ImageIcon, AlertCircle, Send, Bot, User, Download, RotateCcw, MessageCircle, Wand2, Eye, History, Monitor, Maximize2, FileText, ChevronDown, Sparkles, Zap, Copy, Square } from 'lucide-react';
 import { jsPDF } from "jspdf";
-import * as pdfjsLib from 'pdfjs-dist';
-
-// Set worker source for PDF.js
-pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://aistudiocdn.com/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs';
+import * as pdfjsLib from '../services/pdfjs';
 
 interface FigureCheckProps {
   targetJournal: string;
 }
 
-interface Message {
-  id: string;
-  role: 'user' | 'model';
-  text: string;
-  timestamp: Date;
-}
-
 const FigureCheck: React.FC<FigureCheckProps> = ({ targetJournal }) => {
+  // Restored from the open project; App remounts this tab when another project is opened
+  const saved = useRef(getWorkspace().figures).current;
+
   // Image State
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [latestImage, setLatestImage] = useState<string | null>(null);
+  const [originalImage, setOriginalImage] = useState<string | null>(saved?.originalImage ?? null);
+  const [latestImage, setLatestImage] = useState<string | null>(saved?.latestImage ?? null);
   const [isViewingOriginal, setIsViewingOriginal] = useState(false);
   
   // Configuration State for Generation
-  const [aspectRatio, setAspectRatio] = useState("1:1");
-  const [imageSize, setImageSize] = useState("1K");
+  const [aspectRatio, setAspectRatio] = useState(saved?.aspectRatio || "1:1");
+  const [imageSize, setImageSize] = useState(saved?.imageSize || "1K");
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
 
   // Computed active image based on view mode
@@ -34,14 +31,21 @@ const FigureCheck: React.FC<FigureCheckProps> = ({ targetJournal }) => {
   const hasEdits = originalImage && latestImage && originalImage !== latestImage;
 
   // Chat State
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<FigureMessage[]>(saved?.messages || []);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [pdfProcessing, setPdfProcessing] = useState(false);
+  // Last failed request, kept so it can be retried against the same source image
+  const [figureError, setFigureError] = useState<{ error: ServiceError; prompt: string; image: string | null } | null>(null);
   
+  const requestAbort = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    updateWorkspace('figures', { originalImage, latestImage, messages, aspectRatio, imageSize });
+  }, [originalImage, latestImage, messages, aspectRatio, imageSize]);
+
   // Auto-scroll chat
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -140,35 +144,58 @@ const FigureCheck: React.FC<FigureCheckProps> = ({ targetJournal }) => {
     if (!userText && !activeImage) return;
 
     // Add User Message
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', text: userText || "(Requesting analysis)", timestamp: new Date() };
+    const userMsg: FigureMessage = { id: Date.now().toString(), role: 'user', text: userText || "(Requesting analysis)", timestamp: new Date() };
     setMessages(prev => [...prev, userMsg]);
     setInput('');
+
+    await runFigureRequest(userText, activeImage);
+  };
+
+  const runFigureRequest = async (userText: string, sourceImage: string | null) => {
     setIsLoading(true);
+    setFigureError(null);
+    const controller = new AbortController();
+    requestAbort.current = controller;
 
     let result;
 
-    if (activeImage) {
+    if (sourceImage) {
       // Send currently visible image + prompt
-      const [mimeTypePart, base64Data] = activeImage.split(';base64,');
+      const [mimeTypePart, base64Data] = sourceImage.split(';base64,');
       const mimeType = mimeTypePart.split(':')[1];
-      result = await generateOrEditFigure(userText, targetJournal, aspectRatio, imageSize, base64Data, mimeType);
+      result = await generateOrEditFigure(userText, targetJournal, aspectRatio, imageSize, base64Data, mimeType, { signal: controller.signal });
     } else {
       // GENERATION Mode (Text only)
-      result = await generateOrEditFigure(userText, targetJournal, aspectRatio, imageSize);
+      result = await generateOrEditFigure(userText, targetJournal, aspectRatio, imageSize, undefined, undefined, { signal: controller.signal });
+    }
+    requestAbort.current = null;
+
+    // Stopped: leave the figure as it was and hand the request back for editing
+    if (controller.signal.aborted) {
+      setMessages(prev => prev[prev.length - 1]?.role === 'user' ? prev.slice(0, -1) : prev);
+      setInput(userText);
+      setIsLoading(false);
+      return;
+    }
+
+    if (result.status === 'error') {
+      setFigureError({ error: result.error, prompt: userText, image: sourceImage });
+      setIsLoading(false);
+      return;
     }
 
     // Handle Response
-    const aiMsg: Message = { 
+    const aiMsg: FigureMessage = { 
       id: (Date.now() + 1).toString(), 
       role: 'model', 
-      text: result.text, 
+      text: result.value.text, 
       timestamp: new Date() 
     };
     setMessages(prev => [...prev, aiMsg]);
 
-    if (result.modifiedImage) {
+    if (result.value.modifiedImage) {
       // If a new image was generated, update the latest state
-      const newImageStr = `data:image/png;base64,${result.modifiedImage}`;
+      const newImageStr = `data:image/png;base64,${result.value.modifiedImage}`;
       setLatestImage(newImageStr);
       
       // If we didn't have an original (pure generation), this becomes the "original" too
@@ -182,7 +209,7 @@ const FigureCheck: React.FC<FigureCheckProps> = ({ targetJournal }) => {
       setMessages(prev => [...prev, {
         id: (Date.now() + 2).toString(),
         role: 'model',
-        text: activeImage ? "Figure updated. You can Toggle to Original to compare." : "Generated figure displayed.",
+        text: sourceImage ? "Figure updated. You can Toggle to Original to compare." : "Generated figure displayed.",
         timestamp: new Date()
       }]);
     }
@@ -250,14 +277,15 @@ const FigureCheck: React.FC<FigureCheckProps> = ({ targetJournal }) => {
   ];
 
   const getFooterText = () => {
-    // Dynamic footer text based on active mode
+    // Dynamic footer text based on active mode and the configured provider models
+    const models = getActiveModels();
     if (activeImage) {
-        return "Editing Mode: Using Gemini 2.5 Flash Image (Nano Banana) for pixel-level edits.";
+        return `Editing Mode: Using ${models.fastImage} for pixel-level edits.`;
     }
     if (imageSize === '2K') {
-        return "Generation Mode: Using Gemini 3 Pro Image (High Res / Publication Quality)";
+        return `Generation Mode: Using ${models.proImage} (High Res / Publication Quality)`;
     }
-    return "Generation Mode: Using Gemini 2.5 Flash Image (Fast Draft)";
+    return `Generation Mode: Using ${models.fastImage} (Fast Draft)`;
   };
 
   return (
@@ -469,9 +497,25 @@ const FigureCheck: React.FC<FigureCheckProps> = ({ targetJournal }) => {
                  <div className="w-2 h-2 bg-natureRed rounded-full animate-bounce"></div>
                  <div className="w-2 h-2 bg-natureRed rounded-full animate-bounce delay-75"></div>
                  <div className="w-2 h-2 bg-natureRed rounded-full animate-bounce delay-150"></div>
+                 <button
+                   onClick={() => requestAbort.current?.abort()}
+                   className="ml-2 flex items-center text-xs font-bold text-gray-500 hover:text-natureDark"
+                 >
+                   <Square className="w-3 h-3 mr-1 fill-current" /> Stop
+                 </button>
                </div>
             </div>
           )}
+          {figureError && !isLoading && (
+            <div className="ml-9">
+              <ErrorNotice
+                compact
+                error={figureError.error}
+                onRetry={() => runFigureRequest(figureError.prompt, figureError.image)}
+                onDismiss={() => setFigureError(null)}
+              />
+            </div>
+          )}
           <div ref={messagesEndRef} />
         </div>
 
@@ -1,8 +1,9 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { getJournalGuidelines } from '../services/geminiService';
-import { JournalGuidelines } from '../types';
-import { BookOpen, RefreshCw } from 'lucide-react';
+import { JournalGuidelines, ServiceError } from '../types';
+import { BookOpen, RefreshCw, Square } from 'lucide-react';
+import ErrorNotice from './ErrorNotice';
 
 interface GuidelinesProps {
   targetJournal: string;
@@ -11,25 +12,55 @@ interface GuidelinesProps {
 const Guidelines: React.FC<GuidelinesProps> = ({ targetJournal }) => {
   const [guidelines, setGuidelines] = useState<JournalGuidelines | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const fetchAbort = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    const fetchGuidelines = async () => {
-      setIsLoading(true);
-      const data = await getJournalGuidelines(targetJournal);
-      setGuidelines(data);
-      setIsLoading(false);
-    };
+  const fetchGuidelines = async (forceRefresh = false) => {
+    const controller = new AbortController();
+    fetchAbort.current = controller;
+    setIsLoading(true);
+    setError(null);
+    const result = await getJournalGuidelines(targetJournal, { signal: controller.signal, forceRefresh });
+    if (controller.signal.aborted) {
+      // A newer fetch has taken over if the journal changed; otherwise the user pressed Stop
+      if (fetchAbort.current === controller) {
+        setGuidelines(null);
+        setIsLoading(false);
+      }
+      return;
+    }
+    if (result.status === 'ok') {
+      setGuidelines(result.value);
+    } else {
+      setGuidelines(null);
+      setError(result.error);
+    }
+    setIsLoading(false);
+  };
 
+  useEffect(() => {
     if (targetJournal) {
       fetchGuidelines();
     }
+    return () => fetchAbort.current?.abort();
   }, [targetJournal]);
 
   return (
     <div className="h-full overflow-y-auto bg-white p-8 md:p-12">
       <div className="max-w-4xl mx-auto">
         <div className="mb-10 border-b border-gray-200 pb-6">
-           <h1 className="text-3xl font-serif font-bold text-natureDark mb-2">{targetJournal}</h1>
+           <div className="flex justify-between items-start">
+             <h1 className="text-3xl font-serif font-bold text-natureDark mb-2">{targetJournal}</h1>
+             {guidelines && !isLoading && (
+               <button
+                 onClick={() => fetchGuidelines(true)}
+                 title="Fetch again instead of using the cached summary"
+                 className="text-xs text-gray-400 hover:text-natureRed flex items-center transition-colors mt-2"
+               >
+                 <RefreshCw className="w-3 h-3 mr-1" /> Refresh
+               </button>
+             )}
+           </div>
            <p className="text-gray-500 flex items-center">
               <BookOpen className="w-4 h-4 mr-2" /> Submission Guidelines Reference
            </p>
@@ -39,6 +70,12 @@ const Guidelines: React.FC<GuidelinesProps> = ({ targetJournal }) => {
           <div className="flex flex-col items-center justify-center py-20 text-gray-400">
             <RefreshCw className="w-8 h-8 animate-spin mb-4" />
             <p>Fetching latest guidelines for {targetJournal}...</p>
+            <button
+              onClick={() => fetchAbort.current?.abort()}
+              className="mt-4 px-3 py-1.5 text-xs font-bold text-gray-600 border border-gray-300 rounded hover:bg-gray-100 flex items-center transition-colors"
+            >
+              <Square className="w-3 h-3 mr-2 fill-current" /> Stop
+            </button>
           </div>
         ) : guidelines ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-10 animate-fade-in">
@@ -96,9 +133,19 @@ const Guidelines: React.FC<GuidelinesProps> = ({ targetJournal }) => {
               </div>
             </section>
           </div>
+        ) : error ? (
+          <div className="max-w-xl mx-auto py-10">
+            <ErrorNotice error={error} onRetry={() => fetchGuidelines()} />
+          </div>
         ) : (
           <div className="text-center py-20 text-gray-400">
-            <p>Unable to load guidelines. Please check your connection.</p>
+            {targetJournal ? (
+              <button onClick={() => fetchGuidelines()} className="text-sm font-bold text-natureRed hover:underline">
+                Load guidelines for {targetJournal}
+              </button>
+            ) : (
+              <p>Select a target journal to load its guidelines.</p>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { HunkDecision } from '../types';
+import { DiffSegment, Hunk, currentDecisions, hunkText } from '../services/hunks';
+import { Check, X, Pencil } from 'lucide-react';
+
+interface HunkReviewProps {
+  segments: DiffSegment[];
+  decisions?: HunkDecision[];
+  onDecide: (hunk: number, status: HunkDecision['status'], text?: string) => void;
+}
+
+const DECIDED_STYLES: Record<HunkDecision['status'], string> = {
+  accepted: 'bg-green-50 text-green-800 border-b border-green-300',
+  rejected: 'text-gray-700 border-b border-dotted border-gray-400',
+  edited: 'bg-blue-50 text-blue-800 border-b border-blue-300'
+};
+
+const hunkButton = "inline-flex items-center justify-center w-4 h-4 rounded text-gray-400 hover:bg-gray-100 transition-colors align-middle";
+
+// Tracked changes where each change can be accepted, rejected or reworded in place
+const HunkReview: React.FC<HunkReviewProps> = ({ segments, decisions, onDecide }) => {
+  const [editing, setEditing] = useState<{ hunk: number; text: string } | null>(null);
+  const current = currentDecisions(decisions);
+
+  const saveEdit = () => {
+    if (!editing) return;
+    onDecide(editing.hunk, 'edited', editing.text);
+    setEditing(null);
+  };
+
+  const controls = (hunk: Hunk, decision?: HunkDecision) => (
+    <span className={`inline-flex space-x-0.5 mx-0.5 ${decision ? 'opacity-0 group-hover:opacity-100' : ''} transition-opacity`}>
+      <button onClick={() => onDecide(hunk.index, 'accepted')} title="Accept change" className={`${hunkButton} hover:text-green-700`}>
+        <Check className="w-3 h-3" />
+      </button>
+      <button onClick={() => onDecide(hunk.index, 'rejected')} title="Keep original" className={`${hunkButton} hover:text-red-600`}>
+        <X className="w-3 h-3" />
+      </button>
+      <button onClick={() => setEditing({ hunk: hunk.index, text: decision ? hunkText(hunk, decision) : hunk.after })} title="Edit wording" className={`${hunkButton} hover:text-blue-700`}>
+        <Pencil className="w-3 h-3" />
+      </button>
+    </span>
+  );
+
+  const renderHunk = (hunk: Hunk) => {
+    const decision = current.get(hunk.index);
+    if (editing?.hunk === hunk.index) {
+      return (
+        <span key={hunk.index} className="inline-flex items-center align-middle">
+          <input
+            autoFocus
+            value={editing.text}
+            onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveEdit();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+            onBlur={saveEdit}
+            style={{ width: `${Math.max(8, editing.text.length + 2)}ch` }}
+            className="max-w-full px-1 py-0.5 text-sm border border-blue-300 rounded outline-none bg-white"
+          />
+        </span>
+      );
+    }
+    if (!decision) {
+      return (
+        <span key={hunk.index}>
+          {hunk.before && <del className="bg-red-50 text-red-700 decoration-red-300">{hunk.before}</del>}
+          {hunk.after && <ins className="bg-green-50 text-green-800 no-underline border-b border-green-300">{hunk.after}</ins>}
+          {controls(hunk)}
+        </span>
+      );
+    }
+    const text = hunkText(hunk, decision);
+    return (
+      <span key={hunk.index} className="group" title={`${decision.status} ${new Date(decision.decidedAt).toLocaleString()}`}>
+        {text
+          ? <span className={DECIDED_STYLES[decision.status]}>{text}</span>
+          // An accepted deletion leaves nothing to show but a trace of what went
+          : <del className="text-gray-300">{hunk.before}</del>}
+        {controls(hunk, decision)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-700">
+      {segments.map((segment, i) => segment.kind === 'equal' ? <span key={`e${i}`}>{segment.text}</span> : renderHunk(segment.hunk))}
+    </div>
+  );
+};
+
+export default HunkReview;
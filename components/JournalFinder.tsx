@@ -1,56 +1,78 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useSyncExternalStore } from 'react';
 import { suggestTargetJournals, evaluateJournalFit } from '../services/geminiService';
-import { Compass, Search, AlertCircle, BarChart3, ArrowRight, Target, FileText, CheckCircle2, XCircle, Scale, Microscope } from 'lucide-react';
-import { JournalEvaluationResult } from '../types';
-
-// Updated interface to include quality-specific analysis
-interface JournalSuggestion {
-  name: string;
-  matchScore: number;
-  tier: string;
-  rationale: string; // Scope/Topic fit
-  qualityAnalysis: string; // Level/Rigor fit
-  advice: string;
-}
+import { Compass, Search, AlertCircle, BarChart3, ArrowRight, Target, FileText, CheckCircle2, XCircle, Scale, Microscope, Square } from 'lucide-react';
+import { JournalEvaluationResult, JournalSuggestion, ServiceError, TextCoverage } from '../types';
+import ErrorNotice from './ErrorNotice';
+import CoverageNote from './CoverageNote';
+import ManuscriptImport from './ManuscriptImport';
+import { subscribeManuscript, getManuscript, getManuscriptText, updateManuscript, setManuscriptText } from '../services/manuscript';
 
 type Mode = 'DISCOVER' | 'CHECK';
 
 const JournalFinder: React.FC = () => {
   const [mode, setMode] = useState<Mode>('DISCOVER');
-  const [title, setTitle] = useState('');
-  const [abstract, setAbstract] = useState('');
-  const [fullText, setFullText] = useState('');
+  // Title, abstract and full text are the shared manuscript, so the other tabs see what is entered here
+  const { title, abstract } = useSyncExternalStore(subscribeManuscript, getManuscript);
+  const fullText = useSyncExternalStore(subscribeManuscript, getManuscriptText);
   const [targetJournal, setTargetJournal] = useState('');
   
   const [suggestions, setSuggestions] = useState<JournalSuggestion[]>([]);
   const [evaluation, setEvaluation] = useState<JournalEvaluationResult | null>(null);
+  const [coverage, setCoverage] = useState<TextCoverage | null>(null);
   
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const actionAbort = useRef<AbortController | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+  // Section summaries done / total while a long manuscript is condensed
+  const [digestProgress, setDigestProgress] = useState<{ done: number; total: number } | null>(null);
 
   const handleAction = async () => {
     if (!title.trim() || !abstract.trim()) return;
     
+    if (mode === 'CHECK' && !targetJournal.trim()) return;
+    
+    const searchedBefore = hasSearched;
+    const controller = new AbortController();
+    actionAbort.current = controller;
     setIsLoading(true);
     setHasSearched(true);
+    setError(null);
+    const options = {
+      signal: controller.signal,
+      forceRefresh: bypassCache,
+      onDigestProgress: (done: number, total: number) => setDigestProgress({ done, total })
+    };
     
-    try {
-      if (mode === 'DISCOVER') {
-        const results = await suggestTargetJournals(title, abstract, fullText);
-        setSuggestions(results);
+    if (mode === 'DISCOVER') {
+      const result = await suggestTargetJournals(title, abstract, fullText, options);
+      if (controller.signal.aborted) {
+        // Stopped: keep the previous results untouched
+        setHasSearched(searchedBefore);
+      } else if (result.status === 'ok') {
+        setSuggestions(result.value.result);
+        setCoverage(result.value.coverage);
         setEvaluation(null);
       } else {
-        if (!targetJournal.trim()) return;
-        const result = await evaluateJournalFit(title, abstract, fullText, targetJournal);
-        setEvaluation(result);
+        setError(result.error);
+      }
+    } else {
+      const result = await evaluateJournalFit(title, abstract, fullText, targetJournal, options);
+      if (controller.signal.aborted) {
+        setHasSearched(searchedBefore);
+      } else if (result.status === 'ok') {
+        setEvaluation(result.value.result);
+        setCoverage(result.value.coverage);
         setSuggestions([]);
+      } else {
+        setError(result.error);
       }
-    } catch (e) {
-      console.error(e);
-    } finally {
-      setIsLoading(false);
     }
+    actionAbort.current = null;
+    setDigestProgress(null);
+    setIsLoading(false);
   };
 
   const getScoreColor = (score: number) => {
@@ -96,13 +118,15 @@ const JournalFinder: React.FC = () => {
               : "Evaluate if your manuscript meets the specific criteria and standards of a target journal."}
           </p>
 
+          <ManuscriptImport />
+
           <div>
             <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Manuscript Title</label>
             <input 
               type="text" 
               className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none transition-shadow"
               value={title}
-              onChange={(e) => setTitle(e.target.value)}
+              onChange={(e) => updateManuscript({ title: e.target.value })}
               placeholder="Enter the full title..."
             />
           </div>
@@ -113,7 +137,7 @@ const JournalFinder: React.FC = () => {
               rows={6}
               className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none resize-none transition-shadow"
               value={abstract}
-              onChange={(e) => setAbstract(e.target.value)}
+              onChange={(e) => updateManuscript({ abstract: e.target.value })}
               placeholder="Paste your abstract here..."
             />
           </div>
@@ -127,7 +151,7 @@ const JournalFinder: React.FC = () => {
                 rows={8}
                 className="w-full p-3 border border-gray-300 rounded-lg text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none resize-none transition-shadow bg-gray-50 focus:bg-white"
                 value={fullText}
-                onChange={(e) => setFullText(e.target.value)}
+                onChange={(e) => setManuscriptText(e.target.value)}
                 placeholder="Paste Introduction, Results, and Discussion here for accurate quality assessment."
               />
               <div className="absolute bottom-2 right-2 text-xs text-gray-400 pointer-events-none bg-white/80 px-1 rounded">
@@ -149,32 +173,55 @@ const JournalFinder: React.FC = () => {
             </div>
           )}
 
-          <button
-            onClick={handleAction}
-            disabled={isLoading || !title || !abstract || (mode === 'CHECK' && !targetJournal)}
-            className={`w-full py-3 rounded-lg font-bold flex items-center justify-center transition-all ${
-              isLoading || !title || !abstract || (mode === 'CHECK' && !targetJournal)
-                ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
-                : 'bg-natureDark text-white hover:bg-natureRed shadow-md hover:shadow-lg'
-            }`}
-          >
-            {isLoading ? (
-              <>
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                Analyzing...
-              </>
-            ) : (
-              <>
-                {mode === 'DISCOVER' ? <Search className="w-4 h-4 mr-2" /> : <Scale className="w-4 h-4 mr-2" />}
-                {mode === 'DISCOVER' ? 'Find Journals' : `Evaluate Fit`}
-              </>
-            )}
-          </button>
+          {isLoading ? (
+            <div className="flex space-x-2">
+              <div className="flex-1 py-3 rounded-lg font-bold flex items-center justify-center bg-gray-200 text-gray-400 cursor-not-allowed">
+                <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin mr-2" />
+                {digestProgress && digestProgress.done < digestProgress.total
+                  ? `Summarizing sections ${digestProgress.done}/${digestProgress.total}...`
+                  : 'Analyzing...'}
+              </div>
+              <button
+                onClick={() => actionAbort.current?.abort()}
+                className="px-4 py-3 rounded-lg font-bold flex items-center justify-center border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 transition-all"
+              >
+                <Square className="w-4 h-4 mr-2 fill-current" /> Stop
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleAction}
+              disabled={!title || !abstract || (mode === 'CHECK' && !targetJournal)}
+              className={`w-full py-3 rounded-lg font-bold flex items-center justify-center transition-all ${
+                !title || !abstract || (mode === 'CHECK' && !targetJournal)
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
+                  : 'bg-natureDark text-white hover:bg-natureRed shadow-md hover:shadow-lg'
+              }`}
+            >
+              {mode === 'DISCOVER' ? <Search className="w-4 h-4 mr-2" /> : <Scale className="w-4 h-4 mr-2" />}
+              {mode === 'DISCOVER' ? 'Find Journals' : `Evaluate Fit`}
+            </button>
+          )}
+          <label className="flex items-center justify-center text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-1.5 accent-natureRed"
+              checked={bypassCache}
+              onChange={(e) => setBypassCache(e.target.checked)}
+            />
+            Bypass cache (re-run even if this manuscript was assessed recently)
+          </label>
         </div>
       </div>
 
       {/* Results Panel */}
       <div className="w-2/3 h-full overflow-y-auto bg-gray-50 p-8">
+        {error && !isLoading && (
+          <div className="max-w-3xl mx-auto mb-6">
+            <ErrorNotice error={error} onRetry={handleAction} onDismiss={() => setError(null)} />
+          </div>
+        )}
+
         {/* DISCOVER MODE RESULTS */}
         {mode === 'DISCOVER' && (
           suggestions.length > 0 ? (
@@ -187,6 +234,7 @@ const JournalFinder: React.FC = () => {
                    </p>
                  </div>
                </div>
+               {coverage && <CoverageNote coverage={coverage} />}
                
                {suggestions.map((journal, index) => (
                  <div key={index} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow relative overflow-hidden">
@@ -231,13 +279,14 @@ const JournalFinder: React.FC = () => {
                  </div>
                ))}
             </div>
-          ) : renderEmptyState(hasSearched, isLoading)
+          ) : (error ? null : renderEmptyState(hasSearched, isLoading))
         )}
 
         {/* CHECK MODE RESULTS */}
         {mode === 'CHECK' && (
           evaluation ? (
-            <div className="max-w-3xl mx-auto">
+            <div className="max-w-3xl mx-auto space-y-4">
+              {coverage && <CoverageNote coverage={coverage} />}
               <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
                 {/* Header */}
                 <div className="bg-natureDark text-white p-8">
@@ -302,7 +351,7 @@ const JournalFinder: React.FC = () => {
                 </div>
               </div>
             </div>
-          ) : renderEmptyState(hasSearched, isLoading)
+          ) : (error ? null : renderEmptyState(hasSearched, isLoading))
         )}
       </div>
     </div>
@@ -0,0 +1,213 @@
+import React, { useState, useRef, useSyncExternalStore } from 'react';
+import {
+  JournalProfile, JOURNAL_TIERS, subscribeJournalProfiles, getJournalProfiles, saveJournalProfile, deleteJournalProfile,
+  revertJournalProfile, resetJournalProfiles, isBundledProfile, isEditedProfile, newProfileId, exportJournalProfiles, importJournalProfiles
+} from '../services/journalProfiles';
+import { Library, Plus, Download, Upload, Trash2, RotateCcw, Check } from 'lucide-react';
+
+const emptyProfile = (): JournalProfile => ({
+  id: '',
+  name: '',
+  aliases: [],
+  tier: 'Solid Mid-Tier',
+  focus: '',
+  tone: '',
+  wordLimits: {},
+  referenceStyle: '',
+  figureSpecs: ''
+});
+
+const inputClass = "w-full p-2 bg-white border border-gray-200 rounded text-sm outline-none focus:border-natureRed";
+
+// Manage the journal profiles used by the prompts and the Sidebar selector
+const JournalProfileEditor: React.FC = () => {
+  const profiles = useSyncExternalStore(subscribeJournalProfiles, getJournalProfiles);
+  const [draft, setDraft] = useState<JournalProfile | null>(null);
+  const [status, setStatus] = useState('');
+  const [saved, setSaved] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<JournalProfile>) => {
+    setDraft(prev => prev && { ...prev, ...patch });
+    setSaved(false);
+  };
+
+  const updateLimit = (key: 'abstract' | 'mainText', value: string) => {
+    const n = parseInt(value, 10);
+    update({ wordLimits: { ...draft?.wordLimits, [key]: n > 0 ? n : undefined } });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const profile = { ...draft, name: draft.name.trim(), id: draft.id || newProfileId(draft.name) };
+    saveJournalProfile(profile);
+    setDraft(profile);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id || !window.confirm(`Delete the profile for ${draft.name}?`)) return;
+    deleteJournalProfile(draft.id);
+    setDraft(null);
+  };
+
+  const handleRevert = () => {
+    if (!draft?.id || !window.confirm(`Discard your changes to ${draft.name} and use the bundled profile?`)) return;
+    revertJournalProfile(draft.id);
+    setDraft(getJournalProfiles().find(p => p.id === draft.id) || null);
+  };
+
+  const handleResetAll = () => {
+    if (window.confirm('Restore the bundled journal profiles? Added and edited profiles will be lost.')) {
+      resetJournalProfiles();
+      setDraft(null);
+      setStatus('');
+    }
+  };
+
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(exportJournalProfiles(), null, 2)], { type: 'application/json' }));
+    link.download = 'manuscript-pilot-journals.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importJournalProfiles(JSON.parse(await file.text()));
+      setStatus(`Imported ${count} profiles from ${file.name}.`);
+    } catch (error) {
+      console.error("Error importing journal profiles:", error);
+      setStatus(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <section className="mb-10">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xs font-bold text-natureRed uppercase tracking-wider flex items-center">
+          <Library className="w-4 h-4 mr-2" /> Journal Profiles ({profiles.length})
+        </h3>
+        <div className="flex space-x-2">
+          <button onClick={() => { setDraft(emptyProfile()); setSaved(false); }} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+            <Plus className="w-3 h-3 mr-2" /> Add
+          </button>
+          <button onClick={handleExport} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+            <Download className="w-3 h-3 mr-2" /> Export
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+            <Upload className="w-3 h-3 mr-2" /> Import
+          </button>
+          <button onClick={handleResetAll} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center">
+            <RotateCcw className="w-3 h-3 mr-2" /> Restore Bundled
+          </button>
+          <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+      {status && <p className="text-xs text-gray-500 mb-2">{status}</p>}
+
+      <div className="flex border border-gray-100 rounded-lg overflow-hidden">
+        <ul className="w-1/3 max-h-[28rem] overflow-y-auto border-r border-gray-100 divide-y divide-gray-100">
+          {profiles.map(p => (
+            <li key={p.id}>
+              <button
+                onClick={() => { setDraft(p); setSaved(false); }}
+                className={`w-full text-left px-3 py-2 text-xs ${draft?.id === p.id ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+              >
+                <span className="block font-bold text-natureDark truncate">{p.name}</span>
+                <span className="text-gray-400">
+                  {p.tier}
+                  {!isBundledProfile(p.id) ? ' · added' : isEditedProfile(p.id) ? ' · edited' : ''}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 p-4 bg-gray-50">
+          {draft ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Name</label>
+                  <input className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tier</label>
+                  <select className={inputClass} value={draft.tier} onChange={(e) => update({ tier: e.target.value as JournalProfile['tier'] })}>
+                    {JOURNAL_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Aliases (comma separated)</label>
+                <input
+                  className={inputClass}
+                  value={(draft.aliases || []).join(', ')}
+                  onChange={(e) => update({ aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                  placeholder="e.g. NCB, Nat Cell Biol"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Editorial Focus</label>
+                <textarea rows={2} className={`${inputClass} resize-none`} value={draft.focus} onChange={(e) => update({ focus: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Tone</label>
+                <input className={inputClass} value={draft.tone} onChange={(e) => update({ tone: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Abstract Limit (words)</label>
+                  <input type="number" min={0} className={inputClass} value={draft.wordLimits?.abstract ?? ''} onChange={(e) => updateLimit('abstract', e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Main Text Limit (words)</label>
+                  <input type="number" min={0} className={inputClass} value={draft.wordLimits?.mainText ?? ''} onChange={(e) => updateLimit('mainText', e.target.value)} />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Reference Style</label>
+                <input className={inputClass} value={draft.referenceStyle || ''} onChange={(e) => update({ referenceStyle: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Figure Specs</label>
+                <textarea rows={2} className={`${inputClass} resize-none`} value={draft.figureSpecs || ''} onChange={(e) => update({ figureSpecs: e.target.value })} />
+              </div>
+              <div className="flex justify-end space-x-2 pt-1">
+                {draft.id && isBundledProfile(draft.id) && isEditedProfile(draft.id) && (
+                  <button onClick={handleRevert} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+                    <RotateCcw className="w-3 h-3 mr-2" /> Revert to Bundled
+                  </button>
+                )}
+                {draft.id && (
+                  <button onClick={handleDelete} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center">
+                    <Trash2 className="w-3 h-3 mr-2" /> Delete
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.name.trim() || !draft.focus.trim() || !draft.tone.trim()}
+                  className="px-3 py-1.5 text-xs font-bold text-white bg-natureRed hover:bg-red-700 rounded flex items-center disabled:opacity-50"
+                >
+                  {saved ? <><Check className="w-3 h-3 mr-2" /> Saved</> : 'Save Profile'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 h-full flex items-center justify-center text-center">
+              Select a journal to view or edit its profile. Journals without a profile get a generic style.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default JournalProfileEditor;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { LogicCheckResult, LogicIssue } from '../types';
+import { Crosshair } from 'lucide-react';
+
+interface LogicIssueListProps {
+  logicCheck: LogicCheckResult;
+  // Issues whose quote was found in the current input
+  located: Set<number>;
+  activeIssue?: number | null;
+  onSelect: (issue: number) => void;
+}
+
+export const SEVERITY_STYLES: Record<LogicIssue['severity'], { badge: string; mark: string }> = {
+  major: { badge: 'bg-red-100 text-red-700', mark: 'bg-red-300/40' },
+  moderate: { badge: 'bg-amber-100 text-amber-700', mark: 'bg-amber-300/50' },
+  minor: { badge: 'bg-sky-100 text-sky-700', mark: 'bg-sky-300/40' }
+};
+
+// Logic Check issues; selecting one highlights and selects its span in the Editor input
+const LogicIssueList: React.FC<LogicIssueListProps> = ({ logicCheck, located, activeIssue, onSelect }) => (
+  <div className="space-y-3">
+    {logicCheck.summary && <p className="text-sm text-gray-800 leading-relaxed">{logicCheck.summary}</p>}
+    {logicCheck.issues.length === 0 ? (
+      <p className="text-xs text-gray-400">No issues found.</p>
+    ) : (
+      <ol className="space-y-2">
+        {logicCheck.issues.map((issue, i) => (
+          <li key={i}>
+            <button
+              onClick={() => onSelect(i)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                activeIssue === i ? 'border-natureRed bg-red-50/40' : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center flex-wrap gap-2 mb-1.5">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${SEVERITY_STYLES[issue.severity].badge}`}>{issue.severity}</span>
+                <span className="text-[10px] font-bold uppercase tracking-wide text-gray-500">{issue.category}</span>
+                <span className={`ml-auto flex items-center text-[10px] ${located.has(i) ? 'text-gray-400' : 'text-amber-600'}`}>
+                  {located.has(i) ? <><Crosshair className="w-3 h-3 mr-1" /> Show in input</> : 'Not in current input'}
+                </span>
+              </div>
+              <p className="text-xs font-serif italic text-gray-600 border-l-2 border-gray-200 pl-2 mb-1.5">"{issue.quote}"</p>
+              <p className="text-sm text-gray-800">{issue.problem}</p>
+              <p className="text-xs text-gray-600 mt-1"><span className="font-bold">Suggestion:</span> {issue.suggestion}</p>
+            </button>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export default LogicIssueList;
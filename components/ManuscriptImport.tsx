@@ -0,0 +1,97 @@
+import React, { useState, useRef, useSyncExternalStore } from 'react';
+import { MANUSCRIPT_FILE_TYPES, importManuscriptFiles } from '../services/manuscriptImport';
+import { exportLatex } from '../services/latexExport';
+import { subscribeManuscript, getManuscript, getManuscriptText, loadManuscript } from '../services/manuscript';
+import { Upload, Download, RefreshCw } from 'lucide-react';
+
+const download = (name: string, content: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
+  link.download = name.split('/').pop() || name;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+// Loads manuscript files into the shared manuscript, and writes edits back to imported LaTeX
+const ManuscriptImport: React.FC = () => {
+  const { source } = useSyncExternalStore(subscribeManuscript, getManuscript);
+  const [status, setStatus] = useState<{ text: string; details: string[]; isError: boolean } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (!files.length) return;
+    const label = files.length === 1 ? files[0].name : `${files.length} files`;
+    if (getManuscriptText().trim() && !window.confirm(`Replace the current manuscript text with ${label}?`)) return;
+    setIsImporting(true);
+    try {
+      const imported = await importManuscriptFiles(files);
+      loadManuscript(imported);
+      const { sections, figures, references } = getManuscript();
+      setStatus({
+        text: `Imported ${label}: ${sections.length} sections, ${figures.length} figure legends, ${references.length} references.`,
+        details: imported.warnings,
+        isError: false
+      });
+    } catch (error) {
+      console.error("Error importing manuscript:", error);
+      setStatus({ text: `Could not import ${label}: ${(error as Error).message}`, details: [], isError: true });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!source) return;
+    const result = exportLatex(source, getManuscriptText());
+    const changedFiles = Object.keys(result.files);
+    changedFiles.forEach(name => download(name, result.files[name]));
+    setStatus({
+      text: changedFiles.length
+        ? `Wrote ${result.changedParagraphs} changed paragraphs to ${changedFiles.join(', ')}.`
+        : 'No changes to write back to the LaTeX source.',
+      details: result.skipped,
+      isError: false
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex-1 py-2 border border-dashed border-gray-300 rounded-lg text-xs font-bold text-gray-500 hover:border-natureRed hover:text-natureRed transition-colors flex items-center justify-center disabled:opacity-50"
+        >
+          {isImporting
+            ? <><RefreshCw className="w-3 h-3 mr-2 animate-spin" /> Importing...</>
+            : <><Upload className="w-3 h-3 mr-2" /> Import Manuscript (.docx, .pdf, .tex + .bib)</>}
+        </button>
+        {source?.kind === 'latex' && (
+          <button
+            onClick={handleExport}
+            title={`Write edited paragraphs back into ${source.mainFile} and its included files`}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-xs font-bold text-gray-600 hover:border-natureRed hover:text-natureRed transition-colors flex items-center"
+          >
+            <Download className="w-3 h-3 mr-2" /> Export .tex
+          </button>
+        )}
+      </div>
+      <input type="file" multiple ref={fileInputRef} onChange={handleFiles} accept={MANUSCRIPT_FILE_TYPES} className="hidden" />
+      {status && (
+        <div className={`text-xs mt-1 ${status.isError ? 'text-red-600' : 'text-gray-400'}`}>
+          <p>{status.text}</p>
+          {status.details.length > 0 && (
+            <ul className="list-disc pl-4 mt-1 text-amber-700">
+              {status.details.map((detail, i) => <li key={i}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManuscriptImport;
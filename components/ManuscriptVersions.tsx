@@ -0,0 +1,208 @@
+import React, { useState, useMemo, useSyncExternalStore } from 'react';
+import { Manuscript } from '../types';
+import { subscribeProjects, getProjectState, createSnapshot, renameSnapshot, deleteSnapshot } from '../services/projects';
+import { subscribeManuscript, getManuscript, joinSections, restoreSection, updateManuscript } from '../services/manuscript';
+import { SectionComparison, compareManuscripts } from '../services/manuscriptVersions';
+import { diffStats } from '../services/textDiff';
+import DiffView, { DiffMode } from './DiffView';
+import { History, Camera, Pencil, Trash2, RotateCcw, ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
+
+const CURRENT = 'current';
+
+const CHANGE_STYLES: Record<SectionComparison['change'], string> = {
+  unchanged: 'bg-gray-100 text-gray-500',
+  changed: 'bg-amber-50 text-amber-700',
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700'
+};
+
+const wordCount = (m: Manuscript) => (joinSections(m.sections).match(/\S+/g) || []).length;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Named snapshots of the manuscript, compared section by section with a word diff
+const ManuscriptVersions: React.FC = () => {
+  const { snapshots } = useSyncExternalStore(subscribeProjects, getProjectState);
+  const manuscript = useSyncExternalStore(subscribeManuscript, getManuscript);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [fromId, setFromId] = useState(() => snapshots[snapshots.length - 1]?.id || CURRENT);
+  const [toId, setToId] = useState(CURRENT);
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const versionOf = (id: string) => id === CURRENT ? manuscript : snapshots.find(s => s.id === id)?.manuscript;
+  const nameOf = (id: string) => id === CURRENT ? 'current manuscript' : `"${snapshots.find(s => s.id === id)?.name}"`;
+  const from = versionOf(fromId);
+  const to = versionOf(toId);
+  const rows = useMemo(() => (from && to && from !== to ? compareManuscripts(from, to) : []), [from, to]);
+  const visibleRows = rows.filter(row => showUnchanged || row.change !== 'unchanged');
+  // Restoring writes the older version into the current manuscript, so it is offered when comparing against it
+  const canRestore = toId === CURRENT && fromId !== CURRENT;
+
+  const handleSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = snapshotName.trim() || `Version ${snapshots.length + 1}`;
+    createSnapshot(name);
+    setSnapshotName('');
+    if (fromId === CURRENT) setFromId(getProjectState().snapshots[getProjectState().snapshots.length - 1].id);
+  };
+
+  const handleRename = (id: string, name: string) => {
+    const next = window.prompt('Rename snapshot:', name);
+    if (next?.trim()) renameSnapshot(id, next.trim());
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (!window.confirm(`Delete snapshot "${name}"?`)) return;
+    deleteSnapshot(id);
+    if (fromId === id) setFromId(CURRENT);
+    if (toId === id) setToId(CURRENT);
+  };
+
+  const handleRestore = (row: SectionComparison) => {
+    if (!from || !window.confirm(`Replace the current ${row.title} with the version from ${nameOf(fromId)}?`)) return;
+    if (row.field === 'title') updateManuscript({ title: from.title });
+    else if (row.field === 'abstract') updateManuscript({ abstract: from.abstract });
+    else if (row.before) restoreSection(row.before, row.precedingTitles);
+  };
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5 text-sm outline-none focus:border-natureRed"
+    >
+      {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+      <option value={CURRENT}>Current manuscript</option>
+    </select>
+  );
+
+  return (
+    <div className="flex h-full bg-gray-50 overflow-hidden">
+      {/* Snapshot list */}
+      <div className="w-1/3 max-w-sm h-full overflow-y-auto border-r border-gray-200 bg-white p-6 shadow-sm z-10">
+        <div className="flex items-center mb-2">
+          <History className="w-6 h-6 text-natureRed mr-2" />
+          <h2 className="text-xl font-serif font-bold text-natureDark">Versions</h2>
+        </div>
+        <p className="text-xs text-gray-500 mb-6">
+          Save a snapshot at each revision round, then compare any two versions and restore sections from earlier ones.
+        </p>
+
+        <form onSubmit={handleSnapshot} className="flex space-x-2 mb-6">
+          <input
+            type="text"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder='e.g. "submitted v1"'
+            className="flex-1 min-w-0 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-natureRed"
+          />
+          <button
+            type="submit"
+            disabled={!manuscript.sections.length && !manuscript.title}
+            className="px-3 py-2 bg-natureDark text-white text-xs font-bold rounded-lg hover:bg-black transition-colors flex items-center disabled:opacity-40"
+          >
+            <Camera className="w-3 h-3 mr-1.5" /> Snapshot
+          </button>
+        </form>
+
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-8">No snapshots yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...snapshots].reverse().map(s => (
+              <li key={s.id} className="group border border-gray-200 rounded-lg p-3 hover:border-gray-300 transition-colors">
+                <div className="flex items-start justify-between">
+                  <button onClick={() => { setFromId(s.id); setToId(CURRENT); }} className="text-left" title="Compare with the current manuscript">
+                    <p className="text-sm font-bold text-gray-900">{s.name}</p>
+                    <p className="text-[10px] text-gray-400 mt-0.5">
+                      {formatDate(s.createdAt)} · {s.manuscript.sections.length} sections · {wordCount(s.manuscript).toLocaleString()} words
+                    </p>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => handleRename(s.id, s.name)} className="p-1 text-gray-400 hover:text-gray-700" title="Rename">
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => handleDelete(s.id, s.name)} className="p-1 text-gray-400 hover:text-red-600" title="Delete">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Comparison */}
+      <div className="flex-1 h-full overflow-y-auto p-8">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <GitCompare className="w-4 h-4 text-gray-400" />
+          {versionSelect(fromId, setFromId)}
+          <span className="text-xs text-gray-400">to</span>
+          {versionSelect(toId, setToId)}
+          <div className="flex bg-gray-100 p-1 rounded-lg ml-auto">
+            {(['inline', 'split'] as DiffMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${mode === m ? 'bg-white text-natureDark shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {m === 'inline' ? 'Inline' : 'Side by side'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center text-xs text-gray-500">
+            <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="mr-1.5" />
+            Unchanged sections
+          </label>
+        </div>
+
+        {fromId === toId ? (
+          <p className="text-sm text-gray-400 text-center py-16">Choose two different versions to compare.</p>
+        ) : visibleRows.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-16">No differences between these versions.</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleRows.map(row => {
+              const isOpen = expanded[row.key] ?? row.change !== 'unchanged';
+              const stats = diffStats(row.parts);
+              return (
+                <div key={row.key} className="bg-white border border-gray-200 rounded-xl shadow-sm">
+                  <div className="flex items-center px-4 py-3">
+                    <button onClick={() => setExpanded(prev => ({ ...prev, [row.key]: !isOpen }))} className="flex items-center flex-1 text-left">
+                      {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400 mr-2" /> : <ChevronRight className="w-4 h-4 text-gray-400 mr-2" />}
+                      <span className="text-sm font-bold text-gray-900">{row.title}</span>
+                      <span className={`ml-3 text-[10px] font-bold uppercase px-2 py-0.5 rounded ${CHANGE_STYLES[row.change]}`}>{row.change}</span>
+                      {row.change === 'changed' && (
+                        <span className="ml-3 text-[10px] text-gray-400">+{stats.insertedWords} / −{stats.deletedWords} words</span>
+                      )}
+                    </button>
+                    {canRestore && row.change !== 'unchanged' && row.change !== 'added' && (
+                      <button
+                        onClick={() => handleRestore(row)}
+                        className="text-xs font-bold text-gray-500 hover:text-natureRed flex items-center transition-colors"
+                        title={`Put the ${nameOf(fromId)} version back into the current manuscript`}
+                      >
+                        <RotateCcw className="w-3 h-3 mr-1" /> Restore
+                      </button>
+                    )}
+                  </div>
+                  {isOpen && (
+                    <div className="px-4 pb-4 pt-1 border-t border-gray-100 max-h-[32rem] overflow-y-auto">
+                      <DiffView parts={row.parts} mode={mode} collapse />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManuscriptVersions;
@@ -0,0 +1,153 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { AnalysisId, AnalysisType } from '../types';
+import { Pipeline, subscribePipelines, getPipelines, savePipeline, deletePipeline, newPipelineId } from '../services/pipelines';
+import { subscribeCustomAnalyses, getCustomAnalyses } from '../services/customAnalyses';
+import { ANALYSIS_LABELS, analysisLabel, isRewriteAnalysis } from '../services/analysisOutput';
+import { Workflow, Plus, Trash2, Check, ArrowUp, ArrowDown, X } from 'lucide-react';
+
+const inputClass = "w-full p-2 bg-white border border-gray-200 rounded text-sm outline-none focus:border-natureRed";
+
+// Named chains of Editor analyses, run in order on the Editor input
+const PipelineEditor: React.FC = () => {
+  const pipelines = useSyncExternalStore(subscribePipelines, getPipelines);
+  const customAnalyses = useSyncExternalStore(subscribeCustomAnalyses, getCustomAnalyses);
+  const [draft, setDraft] = useState<Pipeline | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const analyses: AnalysisId[] = [...Object.values(AnalysisType), ...customAnalyses.map(a => a.id)];
+
+  const setSteps = (steps: AnalysisId[]) => {
+    setDraft(prev => prev && { ...prev, steps });
+    setSaved(false);
+  };
+
+  const moveStep = (index: number, by: number) => {
+    if (!draft) return;
+    const steps = [...draft.steps];
+    [steps[index], steps[index + by]] = [steps[index + by], steps[index]];
+    setSteps(steps);
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.steps.length) return;
+    const pipeline = { ...draft, name: draft.name.trim(), id: draft.id || newPipelineId(draft.name) };
+    savePipeline(pipeline);
+    setDraft(pipeline);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id || !window.confirm(`Delete the "${draft.name}" pipeline?`)) return;
+    deletePipeline(draft.id);
+    setDraft(null);
+  };
+
+  return (
+    <section className="mb-10">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xs font-bold text-natureRed uppercase tracking-wider flex items-center">
+          <Workflow className="w-4 h-4 mr-2" /> Pipelines ({pipelines.length})
+        </h3>
+        <button
+          onClick={() => { setDraft({ id: '', name: '', steps: [AnalysisType.IMPACT_POLISH] }); setSaved(false); }}
+          className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center"
+        >
+          <Plus className="w-3 h-3 mr-2" /> Add
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        A pipeline runs its analyses one after another in the Editor; each step works on the previous step's rewrite, and
+        critique steps pass their input on unchanged. Every stage is kept in the revision history.
+      </p>
+
+      <div className="flex border border-gray-100 rounded-lg overflow-hidden">
+        <ul className="w-1/3 max-h-[24rem] overflow-y-auto border-r border-gray-100 divide-y divide-gray-100">
+          {pipelines.length === 0 && <li className="px-3 py-4 text-xs text-gray-400">None yet.</li>}
+          {pipelines.map(p => (
+            <li key={p.id}>
+              <button
+                onClick={() => { setDraft(p); setSaved(false); }}
+                className={`w-full text-left px-3 py-2 text-xs ${draft?.id === p.id ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+              >
+                <span className="block font-bold text-natureDark truncate">{p.name}</span>
+                <span className="block text-gray-400 truncate">{p.steps.map(step => analysisLabel(step)).join(' → ')}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 p-4 bg-gray-50">
+          {draft ? (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Name</label>
+                <input
+                  className={inputClass}
+                  value={draft.name}
+                  onChange={(e) => { setDraft({ ...draft, name: e.target.value }); setSaved(false); }}
+                  placeholder="e.g. Pre-submission pass"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Steps</label>
+                <ol className="space-y-1.5">
+                  {draft.steps.map((step, i) => (
+                    <li key={i} className="flex items-center space-x-2">
+                      <span className="w-5 text-xs text-gray-400 text-right">{i + 1}.</span>
+                      <select
+                        className={inputClass}
+                        value={step}
+                        onChange={(e) => setSteps(draft.steps.map((s, j) => j === i ? e.target.value : s))}
+                      >
+                        {!analyses.includes(step) && <option value={step}>{step} (deleted)</option>}
+                        {Object.values(AnalysisType).map(type => <option key={type} value={type}>{ANALYSIS_LABELS[type]}</option>)}
+                        {customAnalyses.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                      <span className="text-[10px] text-gray-400 w-14">{isRewriteAnalysis(step) ? 'rewrite' : 'critique'}</span>
+                      <button onClick={() => moveStep(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move up">
+                        <ArrowUp className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => moveStep(i, 1)} disabled={i === draft.steps.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Move down">
+                        <ArrowDown className="w-3 h-3" />
+                      </button>
+                      <button onClick={() => setSteps(draft.steps.filter((_, j) => j !== i))} className="p-1 text-gray-400 hover:text-red-600" title="Remove step">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                <button
+                  onClick={() => setSteps([...draft.steps, AnalysisType.IMPACT_POLISH])}
+                  className="mt-2 text-xs font-bold text-gray-500 hover:text-natureDark flex items-center"
+                >
+                  <Plus className="w-3 h-3 mr-1" /> Add step
+                </button>
+              </div>
+              <div className="flex justify-end space-x-2 pt-1">
+                {draft.id && (
+                  <button onClick={handleDelete} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center">
+                    <Trash2 className="w-3 h-3 mr-2" /> Delete
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={!draft.name.trim() || !draft.steps.length}
+                  className="px-3 py-1.5 text-xs font-bold text-white bg-natureRed hover:bg-red-700 rounded flex items-center disabled:opacity-50"
+                >
+                  {saved ? <><Check className="w-3 h-3 mr-2" /> Saved</> : 'Save Pipeline'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 h-full flex items-center justify-center text-center">
+              Select a pipeline to edit it, or add one.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default PipelineEditor;
@@ -0,0 +1,93 @@
+import React, { useState, useRef, useSyncExternalStore } from 'react';
+import {
+  SaveStatus, subscribeProjects, getProjectState, createProject, openProject, renameProject, deleteProject, exportProjectBundle, importProjectBundle
+} from '../services/projects';
+import { FolderOpen, Plus, Pencil, Download, Upload, Trash2, ChevronDown } from 'lucide-react';
+
+const STATUS_LABELS: Record<SaveStatus, string> = {
+  loading: 'Loading...',
+  saved: 'Saved',
+  unsaved: 'Unsaved',
+  saving: 'Saving...',
+  error: 'Not saved'
+};
+
+const iconButton = "p-1.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors";
+
+// Open, create, rename, delete, export and import projects
+const ProjectSwitcher: React.FC = () => {
+  const { activeId, name, projects, status } = useSyncExternalStore(subscribeProjects, getProjectState);
+  const [message, setMessage] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleNew = () => {
+    const projectName = window.prompt('Name of the new project:', 'Untitled manuscript');
+    if (projectName?.trim()) createProject(projectName.trim());
+  };
+
+  const handleRename = () => {
+    const projectName = window.prompt('Rename project:', name);
+    if (projectName?.trim()) renameProject(projectName.trim());
+  };
+
+  const handleDelete = () => {
+    if (activeId && window.confirm(`Delete "${name}" and all its saved work? Export it first to keep a copy.`)) {
+      deleteProject(activeId);
+    }
+  };
+
+  const handleExport = async () => {
+    const bundle = await exportProjectBundle();
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+    link.download = `${name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'project'}.manuscript-pilot.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = await importProjectBundle(JSON.parse(await file.text()));
+      setMessage(`Imported "${project.name}".`);
+    } catch (error) {
+      console.error("Error importing project:", error);
+      setMessage(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-3">
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-[10px] font-bold text-gray-400 uppercase flex items-center">
+          <FolderOpen className="w-3 h-3 mr-1" /> Project
+        </label>
+        <span className={`text-[10px] ${status === 'error' ? 'text-red-600 font-bold' : 'text-gray-400'}`}>{STATUS_LABELS[status]}</span>
+      </div>
+      <div className="relative">
+        <select
+          value={activeId || ''}
+          onChange={(e) => { setMessage(''); openProject(e.target.value); }}
+          disabled={!activeId}
+          className="w-full bg-gray-50 text-gray-900 text-sm font-medium rounded-md px-2 py-1.5 border border-gray-200 outline-none appearance-none focus:ring-2 focus:ring-blue-100 transition-shadow cursor-pointer truncate pr-6"
+        >
+          {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <ChevronDown className="w-3 h-3 text-gray-400 absolute right-2 top-2.5 pointer-events-none" />
+      </div>
+      <div className="flex justify-between mt-2">
+        <button onClick={handleNew} className={iconButton} title="New project"><Plus className="w-3.5 h-3.5" /></button>
+        <button onClick={handleRename} disabled={!activeId} className={iconButton} title="Rename"><Pencil className="w-3.5 h-3.5" /></button>
+        <button onClick={handleExport} disabled={!activeId} className={iconButton} title="Export bundle (text, history and images)"><Download className="w-3.5 h-3.5" /></button>
+        <button onClick={() => importInputRef.current?.click()} className={iconButton} title="Import bundle"><Upload className="w-3.5 h-3.5" /></button>
+        <button onClick={handleDelete} disabled={!activeId} className={`${iconButton} hover:text-red-600`} title="Delete project"><Trash2 className="w-3.5 h-3.5" /></button>
+        <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+      </div>
+      {message && <p className="text-[10px] text-gray-500 mt-2 leading-snug">{message}</p>}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { PROMPT_TEMPLATES, PromptTemplateId, getPromptOverrides, savePromptOverride, resetPromptOverride, templateVersion, unknownVariables } from '../services/promptTemplates';
+import { FileCode, Check, RotateCcw, AlertTriangle } from 'lucide-react';
+
+// View, override and reset the prompt templates. Overrides apply to the next request.
+const PromptTemplateEditor: React.FC = () => {
+  const [overrides, setOverrides] = useState(getPromptOverrides);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATES[0].id);
+  const template = PROMPT_TEMPLATES.find(t => t.id === selectedId)!;
+  const override = overrides[selectedId];
+  const [body, setBody] = useState(override ? override.body : template.body);
+  const [saved, setSaved] = useState(false);
+
+  const select = (id: PromptTemplateId) => {
+    if (body !== (override ? override.body : template.body) && !window.confirm('Discard unsaved changes to this template?')) return;
+    const next = PROMPT_TEMPLATES.find(t => t.id === id)!;
+    setSelectedId(id);
+    setBody(overrides[id]?.body ?? next.body);
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    savePromptOverride(selectedId, body);
+    setOverrides(getPromptOverrides());
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Reset "${template.label}" to the built-in v${template.version}?`)) return;
+    resetPromptOverride(selectedId);
+    setOverrides(getPromptOverrides());
+    setBody(template.body);
+  };
+
+  const unknown = unknownVariables(template, body);
+  const unused = template.variables.filter(name => !body.includes(`{{${name}}}`));
+  const isDirty = body !== (override ? override.body : template.body);
+  const overrideCount = Object.keys(overrides).length;
+
+  return (
+    <section className="mb-10">
+      <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+        <FileCode className="w-4 h-4 mr-2" /> Prompt Templates
+        {overrideCount > 0 && <span className="ml-2 text-amber-600 normal-case tracking-normal">({overrideCount} overridden)</span>}
+      </h3>
+      <div className="bg-gray-50 p-6 rounded-lg border border-gray-100 space-y-4">
+        <div className="flex items-center space-x-3">
+          <select
+            value={selectedId}
+            onChange={(e) => select(e.target.value as PromptTemplateId)}
+            className="flex-1 p-2 bg-white border border-gray-200 rounded text-sm outline-none focus:border-natureRed"
+          >
+            {PROMPT_TEMPLATES.map(t => (
+              <option key={t.id} value={t.id}>{t.label}{overrides[t.id] ? ' (custom)' : ''}</option>
+            ))}
+          </select>
+          <span className={`text-xs font-mono ${override ? 'text-amber-600' : 'text-gray-400'}`}>
+            {templateVersion(selectedId, override)}
+          </span>
+        </div>
+
+        <p className="text-xs text-gray-500">{template.description}</p>
+
+        {override && override.basedOn < template.version && (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded p-2 flex items-start">
+            <AlertTriangle className="w-3 h-3 mr-1.5 mt-0.5 flex-shrink-0" />
+            This override was written against v{override.basedOn}; the built-in template is now v{template.version}. Reset to pick up the new default.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-1.5">
+          {template.variables.length === 0 && <span className="text-xs text-gray-400">No variables</span>}
+          {template.variables.map(name => (
+            <code key={name} className={`px-1.5 py-0.5 rounded text-xs border ${unused.includes(name) ? 'bg-white text-gray-400 border-gray-200' : 'bg-blue-50 text-blue-800 border-blue-100'}`}>
+              {`{{${name}}}`}
+            </code>
+          ))}
+        </div>
+
+        <textarea
+          rows={14}
+          value={body}
+          onChange={(e) => { setBody(e.target.value); setSaved(false); }}
+          spellCheck={false}
+          className="w-full p-3 bg-white border border-gray-200 rounded text-xs font-mono leading-relaxed outline-none focus:border-natureRed resize-y"
+        />
+
+        {unknown.length > 0 && (
+          <p className="text-xs text-red-700">
+            Unknown variables are sent as written: {unknown.map(name => `{{${name}}}`).join(', ')}
+          </p>
+        )}
+        {unused.length > 0 && (
+          <p className="text-xs text-gray-400">Not used: {unused.map(name => `{{${name}}}`).join(', ')}</p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={handleReset}
+            disabled={!override}
+            className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3 mr-2" /> Reset to Default
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !body.trim()}
+            className="px-3 py-1.5 text-xs font-bold text-white bg-natureRed hover:bg-red-700 rounded flex items-center disabled:opacity-50"
+          >
+            {saved ? <><Check className="w-3 h-3 mr-2" /> Saved</> : 'Save Override'}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,549 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProviderSettings, ProviderId, ProviderConfig, ProviderModels, PROVIDER_LABELS, DEFAULT_PROVIDER_SETTINGS } from '../services/llmProvider';
+import { countFixtures, exportFixtures, importFixtures, clearFixtures } from '../services/mockProvider';
+import { SchedulerSettings, getSchedulerSettings, saveSchedulerSettings, DEFAULT_SCHEDULER_SETTINGS } from '../services/requestScheduler';
+import { CacheSettings, CacheEntry, CachedTask, CACHED_TASK_LABELS, DEFAULT_CACHE_SETTINGS, getCacheSettings, saveCacheSettings, listCacheEntries, deleteCacheEntry, clearCache, pruneExpiredCache } from '../services/responseCache';
+import { GenerationTask, TaskGenerationSettings, GENERATION_TASKS, DEFAULT_TASK_SETTINGS, getStoredTaskSettings, saveStoredTaskSettings, taskSettingsFor } from '../services/taskSettings';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import JournalProfileEditor from './JournalProfileEditor';
+import CustomAnalysisEditor from './CustomAnalysisEditor';
+import PipelineEditor from './PipelineEditor';
+import { Settings as SettingsIcon, Server, Check, RotateCcw, Database, Download, Upload, Trash2, ListOrdered, Plus, HardDrive, RefreshCw, X, Cpu } from 'lucide-react';
+
+interface SettingsProps {
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+}
+
+const MODEL_FIELDS: { key: keyof ProviderModels; label: string; hint: string }[] = [
+  { key: 'text', label: 'Text Model', hint: 'Editor analyses, cover letters, journal matching, chat.' },
+  { key: 'fastImage', label: 'Fast Image Model', hint: 'Figure edits and 1K drafts.' },
+  { key: 'proImage', label: 'Pro Image Model', hint: 'High-resolution (2K) text-to-image generation.' },
+];
+
+const QUEUE_FIELDS: { key: Exclude<keyof SchedulerSettings, 'modelBudgets'>; label: string; hint: string }[] = [
+  { key: 'maxConcurrent', label: 'Concurrent Requests', hint: 'How many model calls may run at once.' },
+  { key: 'maxRetries', label: 'Max Retries', hint: 'Retries on rate limits (429) and server errors (5xx).' },
+  { key: 'baseDelayMs', label: 'Initial Backoff (ms)', hint: 'Doubled after every failed attempt.' },
+  { key: 'maxDelayMs', label: 'Max Backoff (ms)', hint: 'Upper bound for a single wait.' },
+  { key: 'defaultRequestsPerMinute', label: 'Default Requests / Minute', hint: 'Budget for models not listed below (0 = unlimited).' },
+];
+
+const Settings: React.FC<SettingsProps> = ({ providerSettings, onProviderSettingsChange }) => {
+  // Edit a local draft so half-typed URLs are not used by in-flight requests
+  const [draft, setDraft] = useState<ProviderSettings>(providerSettings);
+  const [schedulerDraft, setSchedulerDraft] = useState<SchedulerSettings>(getSchedulerSettings);
+  const [cacheDraft, setCacheDraft] = useState<CacheSettings>(getCacheSettings);
+  const [taskDraft, setTaskDraft] = useState(getStoredTaskSettings);
+  const [saved, setSaved] = useState(false);
+
+  const [fixtureCount, setFixtureCount] = useState<number | null>(null);
+  const [fixtureStatus, setFixtureStatus] = useState('');
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  const [cacheEntries, setCacheEntries] = useState<CacheEntry[] | null>(null);
+
+  useEffect(() => {
+    setDraft(providerSettings);
+  }, [providerSettings]);
+
+  const refreshFixtureCount = () => {
+    countFixtures().then(setFixtureCount).catch(() => setFixtureCount(null));
+  };
+
+  const refreshCacheEntries = () => {
+    listCacheEntries().then(setCacheEntries).catch(() => setCacheEntries(null));
+  };
+
+  useEffect(() => {
+    refreshFixtureCount();
+    refreshCacheEntries();
+  }, []);
+
+  const active = draft.activeProvider;
+  const config = draft.providers[active];
+
+  const updateConfig = (patch: Partial<ProviderConfig>) => {
+    setDraft(prev => ({
+      ...prev,
+      providers: { ...prev.providers, [active]: { ...prev.providers[active], ...patch } }
+    }));
+    setSaved(false);
+  };
+
+  const updateScheduler = (patch: Partial<SchedulerSettings>) => {
+    setSchedulerDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const updateCache = (patch: Partial<CacheSettings>) => {
+    setCacheDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  // Task settings are kept per provider; the table edits the provider selected above
+  const taskSettings = taskSettingsFor(active, taskDraft);
+
+  const updateTask = (task: GenerationTask, patch: Partial<TaskGenerationSettings>) => {
+    setTaskDraft(prev => ({ ...prev, [active]: { ...taskSettingsFor(active, prev), [task]: { ...taskSettingsFor(active, prev)[task], ...patch } } }));
+    setSaved(false);
+  };
+
+  // Empty inputs fall back to the app default (or the provider's default when the app has none)
+  const optionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+  const handleSave = () => {
+    onProviderSettingsChange(draft);
+    saveSchedulerSettings(schedulerDraft);
+    saveCacheSettings(cacheDraft);
+    saveStoredTaskSettings(taskDraft);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleExportFixtures = async () => {
+    const file = await exportFixtures();
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+    link.download = 'manuscript-pilot-fixtures.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImportFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importFixtures(JSON.parse(await file.text()));
+      setFixtureStatus(`Imported ${count} fixtures from ${file.name}.`);
+    } catch (error) {
+      console.error("Error importing fixtures:", error);
+      setFixtureStatus(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+    refreshFixtureCount();
+  };
+
+  const handleClearFixtures = async () => {
+    if (window.confirm('Delete all recorded fixtures?')) {
+      await clearFixtures();
+      setFixtureStatus('');
+      refreshFixtureCount();
+    }
+  };
+
+  const handleDeleteCacheEntry = async (key: string) => {
+    await deleteCacheEntry(key);
+    refreshCacheEntries();
+  };
+
+  const handlePruneCache = async () => {
+    await pruneExpiredCache();
+    refreshCacheEntries();
+  };
+
+  const handleClearCache = async () => {
+    if (window.confirm('Delete all cached responses?')) {
+      await clearCache();
+      refreshCacheEntries();
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm(`Reset ${PROVIDER_LABELS[active]} settings to defaults?`)) {
+      updateConfig(DEFAULT_PROVIDER_SETTINGS.providers[active]);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto bg-white p-8 md:p-12">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-10 border-b border-gray-200 pb-6">
+          <h1 className="text-3xl font-serif font-bold text-natureDark mb-2 flex items-center">
+            <SettingsIcon className="w-7 h-7 mr-3 text-natureRed" /> Settings
+          </h1>
+          <p className="text-gray-500">Choose where your manuscript text is sent for analysis.</p>
+        </div>
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <Server className="w-4 h-4 mr-2" /> Model Provider
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => { setDraft(prev => ({ ...prev, activeProvider: id })); setSaved(false); }}
+                className={`p-4 rounded-lg border text-left text-sm font-medium transition-all ${
+                  active === id ? 'border-natureRed bg-red-50 text-natureDark shadow-sm' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                {PROVIDER_LABELS[id]}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-4 bg-gray-50 p-6 rounded-lg border border-gray-100">
+            {active === 'openai-compatible' && (
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Base URL</label>
+                <input
+                  type="text"
+                  className="w-full p-2 border border-gray-300 rounded text-sm font-mono focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                  value={config.baseUrl}
+                  onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                />
+                <p className="text-xs text-gray-400 mt-1">Any server exposing /chat/completions (Ollama, vLLM, LM Studio). Nothing is sent to Google.</p>
+              </div>
+            )}
+
+            {active === 'mock' && (
+              <p className="text-sm text-gray-600 leading-relaxed">
+                Every request is answered from recorded fixtures below; nothing leaves this browser.
+                Requests without a matching fixture fail with an explanatory error.
+              </p>
+            )}
+
+            {active !== 'mock' && (
+              <>
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">API Key {active === 'gemini' && '(Optional)'}</label>
+                  <input
+                    type="password"
+                    className="w-full p-2 border border-gray-300 rounded text-sm font-mono focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                    value={config.apiKey}
+                    onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                    placeholder={active === 'gemini' ? 'Uses the selected AI Studio key when empty' : 'Leave empty if the server needs no key'}
+                  />
+                </div>
+
+                {MODEL_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{field.label}</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 border border-gray-300 rounded text-sm font-mono focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                      value={config.models[field.key]}
+                      onChange={(e) => updateConfig({ models: { ...config.models, [field.key]: e.target.value } })}
+                    />
+                    <p className="text-xs text-gray-400 mt-1">{field.hint}</p>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          <label className="flex items-start mt-6 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 mr-3 accent-natureRed"
+              checked={draft.recordFixtures}
+              disabled={active === 'mock'}
+              onChange={(e) => { setDraft(prev => ({ ...prev, recordFixtures: e.target.checked })); setSaved(false); }}
+            />
+            <span>
+              <span className="font-semibold">Record fixtures</span>
+              <span className="block text-xs text-gray-400">Save every live request and response (including streamed chunks and images) for offline replay.</span>
+            </span>
+          </label>
+
+          <div className="flex justify-start items-center mt-6">
+            <button
+              onClick={handleReset}
+              className="text-xs text-gray-400 hover:text-red-600 flex items-center transition-colors"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" /> Reset to defaults
+            </button>
+          </div>
+        </section>
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <Cpu className="w-4 h-4 mr-2" /> Models per Task ({PROVIDER_LABELS[active]})
+          </h3>
+          <div className="bg-gray-50 p-6 rounded-lg border border-gray-100">
+            <p className="text-xs text-gray-500 mb-4">
+              Leave a model empty to use the provider model above. Empty numbers use the app default, or the provider's own default when there is none.
+              Thinking budget applies to Gemini thinking models only (0 turns thinking off).
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-bold text-gray-500 uppercase">
+                  <th className="pb-2 font-bold">Task</th>
+                  <th className="pb-2 font-bold">Model</th>
+                  <th className="pb-2 font-bold w-20">Temp.</th>
+                  <th className="pb-2 font-bold w-24">Max Tokens</th>
+                  <th className="pb-2 font-bold w-24">Thinking</th>
+                  <th className="pb-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(Object.keys(GENERATION_TASKS) as GenerationTask[]).map(task => {
+                  const info = GENERATION_TASKS[task];
+                  const value = taskSettings[task];
+                  const isText = info.role === 'text';
+                  return (
+                    <tr key={task} className="align-top">
+                      <td className="py-2 pr-2">
+                        <span className="block font-medium text-gray-800">{info.label}</span>
+                        <span className="block text-xs text-gray-400">{info.hint}</span>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="text"
+                          className="w-full p-1.5 border border-gray-300 rounded text-xs font-mono focus:border-natureRed outline-none"
+                          value={value.model}
+                          placeholder={config.models[info.role] || 'not configured'}
+                          onChange={(e) => updateTask(task, { model: e.target.value })}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number" min={0} max={2} step={0.1}
+                          className="w-full p-1.5 border border-gray-300 rounded text-xs focus:border-natureRed outline-none"
+                          value={value.temperature ?? ''}
+                          placeholder="default"
+                          onChange={(e) => updateTask(task, { temperature: optionalNumber(e.target.value) })}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number" min={0} step={256}
+                          className="w-full p-1.5 border border-gray-300 rounded text-xs focus:border-natureRed outline-none"
+                          value={value.maxOutputTokens ?? ''}
+                          placeholder="default"
+                          onChange={(e) => updateTask(task, { maxOutputTokens: optionalNumber(e.target.value) })}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        {isText && (
+                          <input
+                            type="number" min={-1} step={1024}
+                            className="w-full p-1.5 border border-gray-300 rounded text-xs focus:border-natureRed outline-none"
+                            value={value.thinkingBudget ?? ''}
+                            placeholder="default"
+                            onChange={(e) => updateTask(task, { thinkingBudget: optionalNumber(e.target.value) })}
+                          />
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <button
+                          onClick={() => updateTask(task, { model: '', temperature: DEFAULT_TASK_SETTINGS[task].temperature, maxOutputTokens: undefined, thinkingBudget: undefined })}
+                          className="p-1.5 text-gray-400 hover:text-red-600"
+                          title="Reset to defaults"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <ListOrdered className="w-4 h-4 mr-2" /> Request Queue
+          </h3>
+          <div className="bg-gray-50 p-6 rounded-lg border border-gray-100">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {QUEUE_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    min={field.key === 'maxConcurrent' ? 1 : 0}
+                    className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                    value={schedulerDraft[field.key]}
+                    onChange={(e) => updateScheduler({ [field.key]: Math.max(field.key === 'maxConcurrent' ? 1 : 0, Number(e.target.value) || 0) })}
+                  />
+                  <p className="text-xs text-gray-400 mt-1">{field.hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <label className="block text-xs font-bold text-gray-500 uppercase mt-6 mb-2">Per-Model Budgets (requests / minute)</label>
+            <div className="space-y-2">
+              {schedulerDraft.modelBudgets.map((budget, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    className="flex-1 p-2 border border-gray-300 rounded text-sm font-mono focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                    value={budget.model}
+                    placeholder="model id"
+                    onChange={(e) => updateScheduler({ modelBudgets: schedulerDraft.modelBudgets.map((b, i) => i === index ? { ...b, model: e.target.value } : b) })}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-24 p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                    value={budget.requestsPerMinute}
+                    onChange={(e) => updateScheduler({ modelBudgets: schedulerDraft.modelBudgets.map((b, i) => i === index ? { ...b, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) } : b) })}
+                  />
+                  <button
+                    onClick={() => updateScheduler({ modelBudgets: schedulerDraft.modelBudgets.filter((_, i) => i !== index) })}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remove budget"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between items-center mt-3">
+              <button
+                onClick={() => updateScheduler({ modelBudgets: [...schedulerDraft.modelBudgets, { model: '', requestsPerMinute: 10 }] })}
+                className="text-xs font-bold text-gray-600 hover:text-natureDark flex items-center"
+              >
+                <Plus className="w-3 h-3 mr-1" /> Add model budget
+              </button>
+              <button
+                onClick={() => updateScheduler(DEFAULT_SCHEDULER_SETTINGS)}
+                className="text-xs text-gray-400 hover:text-red-600 flex items-center transition-colors"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" /> Queue defaults
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <HardDrive className="w-4 h-4 mr-2" /> Response Cache
+          </h3>
+          <div className="bg-gray-50 p-6 rounded-lg border border-gray-100">
+            <label className="flex items-start mb-6 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 mr-3 accent-natureRed"
+                checked={cacheDraft.enabled}
+                onChange={(e) => updateCache({ enabled: e.target.checked })}
+              />
+              <span>
+                <span className="font-semibold">Reuse identical requests</span>
+                <span className="block text-xs text-gray-400">Same model, prompt and settings are answered from this browser instead of a new model call.</span>
+              </span>
+            </label>
+            <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Keep cached results for (hours, 0 = never cache)</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(Object.keys(CACHED_TASK_LABELS) as CachedTask[]).map(task => (
+                <div key={task} className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{CACHED_TASK_LABELS[task]}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    disabled={!cacheDraft.enabled}
+                    className="w-24 p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none disabled:opacity-50"
+                    value={cacheDraft.ttlHours[task]}
+                    onChange={(e) => updateCache({ ttlHours: { ...cacheDraft.ttlHours, [task]: Math.max(0, Number(e.target.value) || 0) } })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end mt-3">
+              <button
+                onClick={() => updateCache(DEFAULT_CACHE_SETTINGS)}
+                className="text-xs text-gray-400 hover:text-red-600 flex items-center transition-colors"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" /> Cache defaults
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <div className="flex justify-end mb-10 pb-10 border-b border-gray-200">
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 rounded-md font-semibold text-white bg-natureRed hover:bg-red-700 shadow-md flex items-center transition-all"
+          >
+            {saved ? <><Check className="w-4 h-4 mr-2" /> Saved</> : 'Save Settings'}
+          </button>
+        </div>
+
+        <JournalProfileEditor />
+
+        <PromptTemplateEditor />
+
+        <CustomAnalysisEditor />
+
+        <PipelineEditor />
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <Database className="w-4 h-4 mr-2" /> Recorded Fixtures
+          </h3>
+          <div className="bg-gray-50 p-6 rounded-lg border border-gray-100 flex items-center justify-between">
+            <div>
+              <p className="text-2xl font-bold text-natureDark">{fixtureCount ?? '–'}</p>
+              <p className="text-xs text-gray-400 uppercase">Stored in this browser</p>
+            </div>
+            <div className="flex space-x-2">
+              <button onClick={handleExportFixtures} disabled={!fixtureCount} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center disabled:opacity-50">
+                <Download className="w-3 h-3 mr-2" /> Export
+              </button>
+              <button onClick={() => fixtureInputRef.current?.click()} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+                <Upload className="w-3 h-3 mr-2" /> Import
+              </button>
+              <button onClick={handleClearFixtures} disabled={!fixtureCount} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center disabled:opacity-50">
+                <Trash2 className="w-3 h-3 mr-2" /> Clear
+              </button>
+              <input type="file" ref={fixtureInputRef} onChange={handleImportFixtures} accept="application/json,.json" className="hidden" />
+            </div>
+          </div>
+          {fixtureStatus && <p className="text-xs text-gray-500 mt-2">{fixtureStatus}</p>}
+        </section>
+
+        <section className="mb-10">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-xs font-bold text-natureRed uppercase tracking-wider flex items-center">
+              <HardDrive className="w-4 h-4 mr-2" /> Cached Responses ({cacheEntries?.length ?? '–'})
+            </h3>
+            <div className="flex space-x-2">
+              <button onClick={refreshCacheEntries} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center">
+                <RefreshCw className="w-3 h-3 mr-2" /> Reload
+              </button>
+              <button onClick={handlePruneCache} disabled={!cacheEntries?.length} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center disabled:opacity-50">
+                Remove expired
+              </button>
+              <button onClick={handleClearCache} disabled={!cacheEntries?.length} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center disabled:opacity-50">
+                <Trash2 className="w-3 h-3 mr-2" /> Clear
+              </button>
+            </div>
+          </div>
+          {cacheEntries && cacheEntries.length > 0 ? (
+            <div className="border border-gray-100 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {cacheEntries.map(entry => {
+                const expired = Date.parse(entry.expiresAt) <= Date.now();
+                return (
+                  <div key={entry.key} className={`p-3 flex items-start text-xs ${expired ? 'opacity-50' : ''}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="font-bold text-natureDark">{CACHED_TASK_LABELS[entry.task as CachedTask] || entry.task || entry.kind}</span>
+                        <span className="font-mono text-gray-400">{entry.model}</span>
+                      </div>
+                      <p className="text-gray-600 truncate" title={entry.promptPreview}>{entry.promptPreview}</p>
+                      <p className="text-gray-400 mt-1">
+                        Cached {new Date(entry.createdAt).toLocaleString()} · {expired ? 'expired' : `expires ${new Date(entry.expiresAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <button onClick={() => handleDeleteCacheEntry(entry.key)} className="ml-2 p-1 text-gray-400 hover:text-red-600" title="Delete entry">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">Nothing cached yet.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
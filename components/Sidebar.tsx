@@ -1,6 +1,9 @@
-import React, { useState } from 'react';
-import { AppTab, PRESET_JOURNALS } from '../types';
-import { BookOpen, FileText, Image as ImageIcon, PenTool, MessageCircle, Compass, Settings, ChevronDown } from 'lucide-react';
+import React, { useState, useSyncExternalStore } from 'react';
+import { AppTab } from '../types';
+import { subscribeScheduler, getSchedulerStatus } from '../services/requestScheduler';
+import { JOURNAL_TIERS, subscribeJournalProfiles, getJournalProfiles, findJournalProfile, describeWordLimits } from '../services/journalProfiles';
+import ProjectSwitcher from './ProjectSwitcher';
+import { BookOpen, FileText, Image as ImageIcon, PenTool, MessageCircle, Compass, Settings, ChevronDown, SlidersHorizontal, Loader2, Hourglass, Coins, History, Layers } from 'lucide-react';
 
 interface SidebarProps {
   activeTab: AppTab;
@@ -11,14 +14,22 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, targetJournal, onJournalChange }) => {
   const [isCustomJournal, setIsCustomJournal] = useState(false);
+  const queue = useSyncExternalStore(subscribeScheduler, getSchedulerStatus);
+  const isBusy = queue.running + queue.queued + queue.retrying > 0;
+  const profiles = useSyncExternalStore(subscribeJournalProfiles, getJournalProfiles);
+  const activeProfile = targetJournal ? findJournalProfile(targetJournal) : undefined;
 
   const navItems = [
     { id: AppTab.EDITOR, label: 'Manuscript Editor', icon: PenTool },
+    { id: AppTab.BATCH, label: 'Batch Analysis', icon: Layers },
     { id: AppTab.CHAT, label: 'AI Assistant', icon: MessageCircle },
     { id: AppTab.JOURNAL_FINDER, label: 'Journal Matcher', icon: Compass },
     { id: AppTab.FIGURE_CHECK, label: 'Figure Audit', icon: ImageIcon },
     { id: AppTab.COVER_LETTER, label: 'Cover Letter', icon: FileText },
+    { id: AppTab.VERSIONS, label: 'Versions', icon: History },
     { id: AppTab.GUIDELINES, label: 'Guidelines', icon: BookOpen },
+    { id: AppTab.USAGE, label: 'Usage & Costs', icon: Coins },
+    { id: AppTab.SETTINGS, label: 'Settings', icon: SlidersHorizontal },
   ];
 
   const handleJournalChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -44,6 +55,10 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, targetJournal
         <p className="text-[10px] font-medium text-gray-400 uppercase tracking-widest pl-5">Scientific AI</p>
       </div>
 
+      <div className="px-4 mb-3">
+        <ProjectSwitcher />
+      </div>
+
       {/* Journal Selector - Mac Style */}
       <div className="px-4 mb-6">
           <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-3">
@@ -74,12 +89,27 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, targetJournal
                    onChange={handleJournalChange}
                    className="w-full bg-gray-50 text-gray-900 text-sm font-medium rounded-md px-2 py-1.5 border border-gray-200 outline-none appearance-none focus:ring-2 focus:ring-blue-100 transition-shadow cursor-pointer"
                  >
-                   {PRESET_JOURNALS.map(j => <option key={j} value={j}>{j}</option>)}
+                   {!activeProfile && targetJournal && <option value={targetJournal}>{targetJournal}</option>}
+                   {JOURNAL_TIERS.map(tier => {
+                     const inTier = profiles.filter(p => p.tier === tier);
+                     return inTier.length > 0 && (
+                       <optgroup key={tier} label={tier}>
+                         {inTier.map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
+                       </optgroup>
+                     );
+                   })}
                    <option value="CUSTOM">Custom / Other...</option>
                  </select>
                  <ChevronDown className="w-3 h-3 text-gray-400 absolute right-2 top-2.5 pointer-events-none" />
                </div>
              )}
+            {targetJournal && (
+              <p className="text-[10px] text-gray-400 mt-2 leading-snug" title={activeProfile?.focus}>
+                {activeProfile
+                  ? `${activeProfile.tier} · ${describeWordLimits(activeProfile)}`
+                  : 'No profile saved: generic style. Add one in Settings.'}
+              </p>
+            )}
           </div>
       </div>
 
@@ -104,6 +134,34 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, targetJournal
         })}
       </nav>
       
+      {/* Request Queue */}
+      {isBusy && (
+        <div className="mx-4 mb-3 bg-white rounded-lg border border-gray-200 shadow-sm p-3">
+          <div className="flex items-center text-[10px] font-bold text-gray-400 uppercase mb-2">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin text-natureRed" /> Model Requests
+          </div>
+          <div className="grid grid-cols-3 gap-1 text-center">
+            <div>
+              <p className="text-sm font-bold text-gray-900">{queue.running}</p>
+              <p className="text-[10px] text-gray-400">Running</p>
+            </div>
+            <div>
+              <p className="text-sm font-bold text-gray-900">{queue.queued}</p>
+              <p className="text-[10px] text-gray-400">Queued</p>
+            </div>
+            <div>
+              <p className={`text-sm font-bold ${queue.retrying ? 'text-amber-600' : 'text-gray-900'}`}>{queue.retrying}</p>
+              <p className="text-[10px] text-gray-400">Retrying</p>
+            </div>
+          </div>
+          {queue.retrying > 0 && (
+            <p className="text-[10px] text-amber-600 mt-2 flex items-center">
+              <Hourglass className="w-3 h-3 mr-1" /> Rate limited, backing off...
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Footer Info */}
       <div className="p-4 border-t border-gray-200 bg-[#F5F5F7]">
         <div className="flex items-center text-xs text-gray-500 mb-1">
@@ -0,0 +1,271 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import {
+  LedgerSettings, ModelPricing, UsageTotals, getLedgerSettings, saveLedgerSettings, subscribeLedger, getLedgerEntries,
+  totalsBy, ledgerToCsv, clearLedger, dayKey, currentManuscript, getSpending, DEFAULT_LEDGER_SETTINGS
+} from '../services/usageLedger';
+import { subscribeProjects, getProjectState } from '../services/projects';
+import { Coins, Check, Download, Trash2, Plus, RotateCcw, CalendarDays, FileText, ListOrdered, Tag } from 'lucide-react';
+
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatTokens = (n: number) => n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}k` : String(n);
+
+const PRICE_FIELDS: { key: Exclude<keyof ModelPricing, 'model'>; label: string }[] = [
+  { key: 'inputPerMillion', label: 'In / 1M' },
+  { key: 'outputPerMillion', label: 'Out / 1M' },
+  { key: 'perImage', label: 'Per image' },
+];
+
+const TotalsTable: React.FC<{ title: string; icon: React.ElementType; rows: UsageTotals[] }> = ({ title, icon: Icon, rows }) => (
+  <section className="mb-10">
+    <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+      <Icon className="w-4 h-4 mr-2" /> {title}
+    </h3>
+    {rows.length > 0 ? (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 uppercase border-b border-gray-200">
+            <th className="py-2 font-bold"></th>
+            <th className="py-2 font-bold text-right">Calls</th>
+            <th className="py-2 font-bold text-right">Input</th>
+            <th className="py-2 font-bold text-right">Output</th>
+            <th className="py-2 font-bold text-right">Images</th>
+            <th className="py-2 font-bold text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-gray-100">
+              <td className="py-2 font-medium text-gray-800">{row.label}</td>
+              <td className="py-2 text-right text-gray-600">{row.calls}</td>
+              <td className="py-2 text-right text-gray-600">{formatTokens(row.inputTokens)}</td>
+              <td className="py-2 text-right text-gray-600">{formatTokens(row.outputTokens)}</td>
+              <td className="py-2 text-right text-gray-600">{row.images}</td>
+              <td className="py-2 text-right font-bold text-natureDark">{formatCost(row.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ) : (
+      <p className="text-sm text-gray-400">No calls recorded yet.</p>
+    )}
+  </section>
+);
+
+const UsageDashboard: React.FC = () => {
+  const entries = useSyncExternalStore(subscribeLedger, getLedgerEntries);
+  // Per-manuscript spend follows the open project
+  useSyncExternalStore(subscribeProjects, getProjectState);
+  const [draft, setDraft] = useState<LedgerSettings>(getLedgerSettings);
+  const [saved, setSaved] = useState(false);
+
+  const update = (patch: Partial<LedgerSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const updatePrice = (index: number, patch: Partial<ModelPricing>) =>
+    update({ pricing: draft.pricing.map((p, i) => i === index ? { ...p, ...patch } : p) });
+
+  const handleSave = () => {
+    saveLedgerSettings(draft);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([ledgerToCsv(entries)], { type: 'text/csv' }));
+    link.download = `manuscript-pilot-usage-${dayKey(Date.now())}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleClear = async () => {
+    if (window.confirm('Delete the entire usage ledger? Budget totals will restart from zero.')) {
+      await clearLedger();
+    }
+  };
+
+  // Caps are enforced against saved settings, so the summary uses them too
+  const settings = getLedgerSettings();
+  const manuscript = currentManuscript().name;
+  const spent = getSpending();
+  const totalCost = entries.reduce((t, e) => t + e.cost, 0);
+
+  const summary = [
+    { label: 'Today', value: spent.today, cap: settings.dailyBudget },
+    { label: manuscript, value: spent.manuscript, cap: settings.manuscriptBudget },
+    { label: 'All time', value: totalCost, cap: 0 },
+  ];
+
+  return (
+    <div className="h-full overflow-y-auto bg-white p-8 md:p-12">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-10 border-b border-gray-200 pb-6 flex justify-between items-end">
+          <div>
+            <h1 className="text-3xl font-serif font-bold text-natureDark mb-2 flex items-center">
+              <Coins className="w-7 h-7 mr-3 text-natureRed" /> Usage & Costs
+            </h1>
+            <p className="text-gray-500">Estimated from reported tokens and the prices below. Cached responses are free.</p>
+          </div>
+          <div className="flex space-x-2">
+            <button onClick={handleExport} disabled={!entries.length} className="px-3 py-1.5 text-xs font-bold text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded flex items-center disabled:opacity-50">
+              <Download className="w-3 h-3 mr-2" /> CSV
+            </button>
+            <button onClick={handleClear} disabled={!entries.length} className="px-3 py-1.5 text-xs font-bold text-red-600 bg-white border border-gray-200 hover:bg-red-50 rounded flex items-center disabled:opacity-50">
+              <Trash2 className="w-3 h-3 mr-2" /> Clear
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-10">
+          {summary.map(card => {
+            const over = card.cap > 0 && card.value >= card.cap;
+            return (
+              <div key={card.label} className={`p-5 rounded-lg border ${over ? 'border-red-200 bg-red-50' : 'border-gray-100 bg-gray-50'}`}>
+                <p className="text-xs text-gray-400 uppercase font-bold truncate">{card.label}</p>
+                <p className={`text-2xl font-bold mt-1 ${over ? 'text-natureRed' : 'text-natureDark'}`}>{formatCost(card.value)}</p>
+                {card.cap > 0 && (
+                  <>
+                    <div className="h-1.5 bg-gray-200 rounded-full mt-3 overflow-hidden">
+                      <div className={`h-full ${over ? 'bg-natureRed' : 'bg-natureDark'}`} style={{ width: `${Math.min(100, (card.value / card.cap) * 100)}%` }} />
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">{over ? 'Cap reached - calls are blocked' : `of ${formatCost(card.cap)} cap`}</p>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <Tag className="w-4 h-4 mr-2" /> Manuscript & Budget Caps
+          </h3>
+          <div className="bg-gray-50 p-6 rounded-lg border border-gray-100 space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Current Manuscript</label>
+              <p className="w-full p-2 bg-white border border-gray-200 rounded text-sm text-gray-700 truncate">{manuscript}</p>
+              <p className="text-xs text-gray-400 mt-1">New calls are booked against the open project; switch projects to change it.</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Daily Cap (USD)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                  value={draft.dailyBudget}
+                  onChange={(e) => update({ dailyBudget: Math.max(0, Number(e.target.value) || 0) })}
+                />
+                <p className="text-xs text-gray-400 mt-1">0 = no cap.</p>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Per-Manuscript Cap (USD)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className="w-full p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                  value={draft.manuscriptBudget}
+                  onChange={(e) => update({ manuscriptBudget: Math.max(0, Number(e.target.value) || 0) })}
+                />
+                <p className="text-xs text-gray-400 mt-1">Applies to the current manuscript. 0 = no cap.</p>
+              </div>
+            </div>
+
+            <label className="block text-xs font-bold text-gray-500 uppercase pt-2">Prices (USD)</label>
+            <div className="space-y-2">
+              {draft.pricing.map((price, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    className="flex-1 p-2 border border-gray-300 rounded text-sm font-mono focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                    value={price.model}
+                    placeholder="model id"
+                    onChange={(e) => updatePrice(index, { model: e.target.value })}
+                  />
+                  {PRICE_FIELDS.map(field => (
+                    <input
+                      key={field.key}
+                      type="number"
+                      min={0}
+                      step={0.001}
+                      title={field.label}
+                      placeholder={field.label}
+                      className="w-24 p-2 border border-gray-300 rounded text-sm focus:border-natureRed focus:ring-1 focus:ring-natureRed outline-none"
+                      value={price[field.key]}
+                      onChange={(e) => updatePrice(index, { [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  ))}
+                  <button
+                    onClick={() => update({ pricing: draft.pricing.filter((_, i) => i !== index) })}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remove price"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">Columns: input per 1M tokens, output per 1M tokens, per generated image. Models without a price are recorded at $0.</p>
+            <div className="flex justify-between items-center">
+              <div className="flex space-x-4">
+                <button
+                  onClick={() => update({ pricing: [...draft.pricing, { model: '', inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }] })}
+                  className="text-xs font-bold text-gray-600 hover:text-natureDark flex items-center"
+                >
+                  <Plus className="w-3 h-3 mr-1" /> Add model price
+                </button>
+                <button
+                  onClick={() => update({ pricing: DEFAULT_LEDGER_SETTINGS.pricing })}
+                  className="text-xs text-gray-400 hover:text-red-600 flex items-center transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" /> Default prices
+                </button>
+              </div>
+              <button
+                onClick={handleSave}
+                className="px-6 py-2 rounded-md font-semibold text-white bg-natureRed hover:bg-red-700 shadow-md flex items-center transition-all"
+              >
+                {saved ? <><Check className="w-4 h-4 mr-2" /> Saved</> : 'Save'}
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <TotalsTable title="Per Day" icon={CalendarDays} rows={totalsBy(entries, 'day')} />
+        <TotalsTable title="Per Manuscript" icon={FileText} rows={totalsBy(entries, 'manuscript')} />
+
+        <section className="mb-10">
+          <h3 className="text-xs font-bold text-natureRed mb-4 uppercase tracking-wider flex items-center">
+            <ListOrdered className="w-4 h-4 mr-2" /> Recent Calls
+          </h3>
+          {entries.length > 0 ? (
+            <div className="border border-gray-100 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {entries.slice(-100).reverse().map(entry => (
+                <div key={entry.id} className="p-3 flex items-center text-xs">
+                  <span className="w-36 text-gray-400 font-mono">{new Date(entry.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    <span className="font-bold text-natureDark">{entry.task || 'request'}</span>
+                    <span className="font-mono text-gray-400 ml-2">{entry.model}</span>
+                    {entry.interrupted && <span className="text-amber-600 ml-2" title="The stream stopped early; tokens are those received">interrupted</span>}
+                  </span>
+                  <span className="w-40 text-right text-gray-600" title={entry.estimated ? 'Estimated from text length' : undefined}>
+                    {entry.estimated && '~'}{formatTokens(entry.inputTokens)} in / {formatTokens(entry.outputTokens)} out{entry.images > 0 && ` / ${entry.images} img`}
+                  </span>
+                  <span className="w-20 text-right font-bold text-natureDark">{formatCost(entry.cost)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">No calls recorded yet.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
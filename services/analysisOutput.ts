@@ -0,0 +1,57 @@
+import { AnalysisId, AnalysisType } from "../types";
+import { findCustomAnalysis } from "./customAnalyses";
+
+// Splits an Editor analysis answer into the rewritten text and the editor's notes. The system prompt asks
+// for "## Rewrite" and "## Editor's Notes" parts; models (and overridden prompts) don't always comply, so
+// bold or differently worded headings are accepted too, and an answer without them is all notes.
+
+// Built-in analyses that return a rewritten version of the input; the others are critiques
+export const REWRITE_ANALYSES = new Set<AnalysisId>([AnalysisType.IMPACT_POLISH, AnalysisType.CONCISENESS, AnalysisType.REBUTTAL]);
+
+export const isRewriteAnalysis = (type: AnalysisId) => REWRITE_ANALYSES.has(type) || findCustomAnalysis(type)?.output === 'rewrite';
+
+export const ANALYSIS_LABELS: Record<AnalysisType, string> = {
+  [AnalysisType.IMPACT_POLISH]: 'Impact Polish',
+  [AnalysisType.LOGIC_CHECK]: 'Logic Check',
+  [AnalysisType.CONCISENESS]: 'Conciseness',
+  [AnalysisType.REBUTTAL]: 'Rebuttal'
+};
+
+// Display name of a built-in or custom analysis; `name` is the one recorded when it ran
+export const analysisLabel = (type: AnalysisId, name?: string) =>
+  ANALYSIS_LABELS[type as AnalysisType] || name || findCustomAnalysis(type)?.name || 'Analysis';
+
+export interface ParsedAnalysis {
+  rewrite?: string;
+  notes: string;
+}
+
+const heading = (names: string) => new RegExp(`^[ \\t]*(?:#{1,4}[ \\t]*)?(?:\\*\\*)?[ \\t]*(?:${names})[ \\t]*:?[ \\t]*(?:\\*\\*)?[ \\t]*:?[ \\t]*$`, 'im');
+
+const REWRITE_HEADING = heading(`rewrite|rewritten text|revised text|revised version|polished text|shortened text|revised response|refined response`);
+const NOTES_HEADING = heading(`editor['’]?s notes|editorial notes|notes|rationale`);
+
+// Models like to wrap the rewrite in quotes or a code fence
+const unwrap = (text: string) =>
+  text.trim()
+    .replace(/^```\w*\n([\s\S]*?)\n```$/, '$1')
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .replace(/^“([\s\S]*)”$/, '$1')
+    .trim();
+
+export const parseAnalysisOutput = (text: string, type: AnalysisId): ParsedAnalysis => {
+  const notesMatch = text.match(NOTES_HEADING);
+  const notesStart = notesMatch ? notesMatch.index! : text.length;
+  const notes = notesMatch ? text.slice(notesStart + notesMatch[0].length).trim() : '';
+  if (!isRewriteAnalysis(type)) {
+    return { notes: notesMatch && !text.slice(0, notesStart).trim() ? notes : text.trim() };
+  }
+  const rewriteMatch = text.slice(0, notesStart).match(REWRITE_HEADING);
+  if (rewriteMatch) {
+    const rewrite = unwrap(text.slice(rewriteMatch.index! + rewriteMatch[0].length, notesStart));
+    return rewrite ? { rewrite, notes } : { notes: text.trim() };
+  }
+  // No rewrite heading: whatever precedes the notes is the rewrite
+  const before = unwrap(text.slice(0, notesStart));
+  return notesMatch && before ? { rewrite: before, notes } : { notes: text.trim() };
+};
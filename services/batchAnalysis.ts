@@ -0,0 +1,103 @@
+import { AnalysisId, AnalysisOutput, BatchParagraph, Manuscript, ManuscriptPartRef, ServiceResult } from "../types";
+import { CallOptions } from "./llmProvider";
+import { analyzeManuscriptText } from "./geminiService";
+import { getManuscript, sectionBody, setSectionBody, updateManuscript } from "./manuscript";
+import { BACK_MATTER } from "./manuscriptDigest";
+import { diffWords } from "./textDiff";
+import { currentDecisions, mergeHunks, toSegments } from "./hunks";
+
+// Runs one Editor analysis over every paragraph of a section (or of the whole manuscript) for a
+// pre-submission pass. Each paragraph is analyzed on its own, its rewrite is reviewed change by change
+// like an Editor card, and the accepted changes of all paragraphs are written back in one go.
+
+// Shorter paragraphs are sub-headings, equations or stray lines, not prose worth a model call
+const MIN_WORDS = 8;
+
+// The abstract and the sections with text, as offered by the Editor's "Load from manuscript"
+export const manuscriptParts = (manuscript: Manuscript): ManuscriptPartRef[] => [
+  ...(manuscript.abstract ? [{ source: 'abstract', title: 'Abstract' }] : []),
+  ...manuscript.sections
+    .filter(s => sectionBody(s) && !(manuscript.abstract && s.title === 'Abstract'))
+    .map(s => ({ source: s.id, title: s.title }))
+];
+
+export const partText = (manuscript: Manuscript, source: string) => {
+  const section = manuscript.sections.find(s => s.id === source);
+  return source === 'abstract' ? manuscript.abstract : section ? sectionBody(section) : undefined;
+};
+
+/**
+ * Paragraphs of one part of the manuscript, or of every part except back matter when `scope` is null.
+ * Paragraphs are separated by blank lines; headings and very short paragraphs are left out.
+ */
+export const collectParagraphs = (manuscript: Manuscript, scope: ManuscriptPartRef | null): BatchParagraph[] => {
+  const parts = scope ? [scope] : manuscriptParts(manuscript).filter(part => !BACK_MATTER.test(part.title));
+  return parts.flatMap(part => (partText(manuscript, part.source) || '')
+    .split(/\n\s*\n/)
+    .map(text => text.trim())
+    .filter(text => !text.startsWith('#') && (text.match(/\S+/g) || []).length >= MIN_WORDS)
+    .map((input, i) => ({ id: `${part.source}:${i + 1}`, part, index: i + 1, input, status: 'pending' as const })));
+};
+
+/**
+ * Analyzes the paragraphs, calling `onResult` as each one completes. All paragraphs are submitted at once;
+ * the request scheduler bounds the actual concurrency.
+ */
+export const analyzeParagraphs = async (
+  paragraphs: BatchParagraph[],
+  type: AnalysisId,
+  targetJournal: string,
+  onResult: (id: string, result: ServiceResult<AnalysisOutput>) => void,
+  options: CallOptions = {}
+) => {
+  await Promise.all(paragraphs.map(async paragraph => {
+    onResult(paragraph.id, await analyzeManuscriptText(paragraph.input, type, targetJournal, options));
+  }));
+};
+
+// The paragraph with the accepted and edited changes of its rewrite, or null when nothing was accepted
+export const reviewedText = (paragraph: BatchParagraph) => {
+  const decisions = [...currentDecisions(paragraph.decisions).values()];
+  if (paragraph.rewrite === undefined || !decisions.some(d => d.status !== 'rejected')) return null;
+  return mergeHunks(toSegments(diffWords(paragraph.input, paragraph.rewrite)), paragraph.decisions).trim();
+};
+
+/**
+ * Writes the reviewed text of every paragraph with accepted changes into the manuscript, replacing the
+ * analyzed paragraph in its part. Paragraphs whose text was edited in the manuscript since the run are
+ * left alone and returned as stale.
+ */
+export const applyReviewedParagraphs = (paragraphs: BatchParagraph[]) => {
+  const applied: string[] = [];
+  const stale: string[] = [];
+  const bySource = new Map<string, BatchParagraph[]>();
+  for (const paragraph of paragraphs) {
+    if (paragraph.appliedAt || reviewedText(paragraph) === null) continue;
+    bySource.set(paragraph.part.source, [...(bySource.get(paragraph.part.source) || []), paragraph]);
+  }
+  bySource.forEach((group, source) => {
+    let text = partText(getManuscript(), source);
+    if (text === undefined) {
+      stale.push(...group.map(p => p.id));
+      return;
+    }
+    // Replace in order, each after the previous one, so repeated paragraphs go to the right place
+    let from = 0;
+    const before = applied.length;
+    for (const paragraph of group) {
+      const at = text.indexOf(paragraph.input, from);
+      if (at < 0) {
+        stale.push(paragraph.id);
+        continue;
+      }
+      const replacement = reviewedText(paragraph)!;
+      text = text.slice(0, at) + replacement + text.slice(at + paragraph.input.length);
+      from = at + replacement.length;
+      applied.push(paragraph.id);
+    }
+    if (applied.length === before) return;
+    if (source === 'abstract') updateManuscript({ abstract: text });
+    else setSectionBody(source, text);
+  });
+  return { applied, stale };
+};
@@ -0,0 +1,108 @@
+import { AnalysisType } from "../types";
+import { Infer, array, integer, number, object, oneOf, string } from "./schema";
+
+// Analysis types defined by the user next to the built-in ones (e.g. "check gene/protein nomenclature",
+// "rewrite for a Methods section"): a prompt template with the same {{variables}} as the built-in
+// analyses, an optional system instruction and temperature, and whether the answer is a rewrite of the
+// input or a critique. Stored in localStorage and shared between labs as a JSON file.
+
+export const CUSTOM_ANALYSIS_ICONS = ['sparkles', 'flask', 'dna', 'microscope', 'book', 'list', 'pen', 'search'] as const;
+
+export const CUSTOM_ANALYSIS_VARIABLES = ['text', 'journal', 'focus', 'tone', 'wordLimits'];
+
+export const customAnalysisSchema = object({
+  id: string(),
+  name: string(),
+  icon: oneOf(CUSTOM_ANALYSIS_ICONS),
+  output: oneOf(['rewrite', 'critique'] as const),
+  // Empty: the built-in Editor system instruction
+  systemInstruction: string(),
+  promptTemplate: string(),
+  // Unset: the Editor analyses temperature from the model settings
+  temperature: number({ min: 0, max: 2 }),
+  // Incremented on every save, so history cards can be traced to the exact prompt
+  revision: integer({ min: 1 })
+}, { optional: ['systemInstruction', 'temperature', 'revision'] });
+
+export type CustomAnalysis = Infer<typeof customAnalysisSchema>;
+
+const customAnalysisFileSchema = object({
+  version: integer(),
+  analyses: array(customAnalysisSchema)
+});
+
+export type CustomAnalysisFile = Infer<typeof customAnalysisFileSchema>;
+
+const STORAGE_KEY = 'manuscriptPilot.customAnalyses';
+
+const readStored = (): CustomAnalysis[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? customAnalysisFileSchema.parse(JSON.parse(raw)).analyses : [];
+  } catch (error) {
+    console.error("Error reading custom analyses:", error);
+    return [];
+  }
+};
+
+// --- Store ---
+
+let analyses = readStored();
+const listeners = new Set<() => void>();
+
+const writeStored = (next: CustomAnalysis[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, analyses: next }));
+  analyses = next;
+  listeners.forEach(listener => listener());
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribeCustomAnalyses = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getCustomAnalyses = () => analyses;
+
+export const findCustomAnalysis = (id: string) => analyses.find(a => a.id === id);
+
+const idBase = (name: string) => `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'analysis'}`;
+
+export const newCustomAnalysisId = (name: string) => {
+  const base = idBase(name);
+  let id = base;
+  for (let n = 2; analyses.some(a => a.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Adds or replaces by id, bumping the revision; returns the saved analysis
+export const saveCustomAnalysis = (analysis: CustomAnalysis): CustomAnalysis => {
+  const previous = findCustomAnalysis(analysis.id);
+  const saved = { ...analysis, revision: (previous?.revision || 0) + 1 };
+  writeStored(previous ? analyses.map(a => a.id === saved.id ? saved : a) : [...analyses, saved]);
+  return saved;
+};
+
+export const deleteCustomAnalysis = (id: string) => writeStored(analyses.filter(a => a.id !== id));
+
+export const exportCustomAnalyses = (): CustomAnalysisFile => ({ version: 1, analyses });
+
+// Adds or replaces analyses by id; returns how many were imported. Custom analyses are looked up before
+// the built-in ones, so an empty id or one naming a built-in analysis is moved under "custom-"; when a
+// file repeats an id, its last entry wins. A replaced analysis gets a revision above both versions, so
+// history cards never record the same revision for two different prompts.
+export const importCustomAnalyses = (data: unknown): number => {
+  const file = customAnalysisFileSchema.parse(data);
+  const builtIn: string[] = Object.values(AnalysisType);
+  const imported = new Map<string, CustomAnalysis>();
+  for (const analysis of file.analyses) {
+    const id = analysis.id.trim();
+    const safeId = !id || builtIn.includes(id) ? idBase(id || analysis.name) : id;
+    const local = findCustomAnalysis(safeId);
+    const revision = local ? Math.max(local.revision || 1, analysis.revision || 1) + 1 : analysis.revision || 1;
+    imported.delete(safeId);
+    imported.set(safeId, { ...analysis, id: safeId, revision });
+  }
+  writeStored([...analyses.filter(a => !imported.has(a.id)), ...imported.values()]);
+  return imported.size;
+};
@@ -0,0 +1,183 @@
+import { openZip } from "./zip";
+import { ImportedManuscript, matchHeading } from "./manuscript";
+
+// Converts a Word manuscript into the app's plain-text form: top-level headings become "# Heading"
+// lines so sections split where the author put them, subheadings become "## ...", paragraphs are
+// separated by blank lines, tables become "| a | b |" rows, and italics, superscripts and subscripts
+// are kept as *x*, ^x^ and ~x~. Endnotes, where reference managers often put the bibliography,
+// become the reference list when the document has none of its own.
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const childrenNamed = (el: Element, name: string) => Array.from(el.children).filter(c => c.localName === name);
+const child = (el: Element | undefined, name: string) => el && childrenNamed(el, name)[0];
+const val = (el: Element | undefined) => el?.getAttributeNS(W, 'val') ?? null;
+
+// <w:i/> is on; <w:i w:val="0"/> or "false" is off
+const isOn = (el: Element | undefined) => !!el && !['0', 'false', 'off'].includes(val(el) || '');
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+interface Segment {
+  text: string;
+  italic: boolean;
+  align: string; // "superscript", "subscript" or ""
+}
+
+interface Context {
+  // Heading level by style id: 0 for the Title style, 1-9 for headings
+  styleLevels: Map<string, number>;
+  // Endnote id to its number in the document
+  endnoteNumbers: Map<string, number>;
+}
+
+const readStyleLevels = (xml: string | undefined) => {
+  const levels = new Map<string, number>();
+  if (!xml) return levels;
+  for (const style of Array.from(parseXml(xml).getElementsByTagNameNS(W, 'style'))) {
+    const id = style.getAttributeNS(W, 'styleId');
+    const name = (val(child(style, 'name')) || '').toLowerCase();
+    const outline = val(child(child(style, 'pPr'), 'outlineLvl'));
+    const heading = name.match(/^heading\s*(\d)$/);
+    if (!id) continue;
+    if (name === 'title') levels.set(id, 0);
+    else if (heading) levels.set(id, parseInt(heading[1], 10));
+    else if (outline !== null && parseInt(outline, 10) < 9) levels.set(id, parseInt(outline, 10) + 1);
+  }
+  return levels;
+};
+
+const collectSegments = (el: Element, context: Context, segments: Segment[]) => {
+  for (const node of Array.from(el.children)) {
+    switch (node.localName) {
+      case 'r': {
+        const props = child(node, 'rPr');
+        const format = { italic: isOn(child(props, 'i')), align: val(child(props, 'vertAlign')) || '' };
+        for (const part of Array.from(node.children)) {
+          const name = part.localName;
+          if (name === 't') segments.push({ ...format, text: part.textContent || '' });
+          else if (name === 'tab') segments.push({ ...format, text: '\t' });
+          else if (name === 'br' || name === 'cr') segments.push({ ...format, text: ' ' });
+          else if (name === 'noBreakHyphen') segments.push({ ...format, text: '-' });
+          else if (name === 'endnoteReference') {
+            const n = context.endnoteNumbers.get(part.getAttributeNS(W, 'id') || '');
+            if (n) segments.push({ italic: false, align: 'superscript', text: String(n) });
+          }
+        }
+        break;
+      }
+      // Containers whose runs are part of the visible text; deletions and moved-away text are not
+      case 'hyperlink':
+      case 'ins':
+      case 'moveTo':
+      case 'smartTag':
+      case 'fldSimple':
+      case 'customXml':
+      case 'sdt':
+      case 'sdtContent':
+        collectSegments(node, context, segments);
+        break;
+    }
+  }
+  return segments;
+};
+
+// Markers go inside surrounding whitespace: "*in vivo* " rather than "*in vivo *"
+const wrap = (text: string, marker: string) => {
+  const [, before, core, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return core ? `${before}${marker}${core}${marker}${after}` : text;
+};
+
+const formatSegments = (segments: Segment[]) => {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.italic === segment.italic && last.align === segment.align) last.text += segment.text;
+    else merged.push({ ...segment });
+  }
+  return merged.map(({ text, italic, align }) => {
+    let formatted = italic ? wrap(text, '*') : text;
+    if (align === 'superscript') formatted = wrap(formatted, '^');
+    if (align === 'subscript') formatted = wrap(formatted, '~');
+    return formatted;
+  }).join('');
+};
+
+const plainText = (segments: Segment[]) => segments.map(s => s.text).join('').replace(/\s+/g, ' ').trim();
+
+const headingLevel = (paragraph: Element, context: Context): number | null => {
+  const props = child(paragraph, 'pPr');
+  const outline = val(child(props, 'outlineLvl'));
+  if (outline !== null && parseInt(outline, 10) < 9) return parseInt(outline, 10) + 1;
+  const level = context.styleLevels.get(val(child(props, 'pStyle')) || '');
+  return level ?? null;
+};
+
+const tableText = (table: Element, context: Context) =>
+  childrenNamed(table, 'tr').map(row => {
+    const cells = childrenNamed(row, 'tc').map(cell =>
+      childrenNamed(cell, 'p').map(p => formatSegments(collectSegments(p, context, [])).trim()).filter(Boolean).join(' ')
+    );
+    return `| ${cells.join(' | ')} |`;
+  }).join('\n');
+
+const readEndnotes = (xml: string | undefined) => {
+  const notes: { id: string; text: string }[] = [];
+  if (!xml) return notes;
+  for (const note of Array.from(parseXml(xml).getElementsByTagNameNS(W, 'endnote'))) {
+    const id = note.getAttributeNS(W, 'id') || '';
+    // Separator notes have ids -1 and 0
+    if (parseInt(id, 10) <= 0) continue;
+    const context: Context = { styleLevels: new Map(), endnoteNumbers: new Map() };
+    const text = childrenNamed(note, 'p').map(p => formatSegments(collectSegments(p, context, [])).trim()).filter(Boolean).join(' ');
+    if (text) notes.push({ id, text });
+  }
+  return notes;
+};
+
+export const importDocx = async (file: Blob): Promise<ImportedManuscript> => {
+  const zip = openZip(await file.arrayBuffer());
+  const documentXml = await zip.readText('word/document.xml');
+  if (!documentXml) throw new Error('Not a Word document (word/document.xml is missing).');
+
+  const endnotes = readEndnotes(await zip.readText('word/endnotes.xml'));
+  const context: Context = {
+    styleLevels: readStyleLevels(await zip.readText('word/styles.xml')),
+    endnoteNumbers: new Map(endnotes.map((note, i) => [note.id, i + 1]))
+  };
+
+  const body = parseXml(documentXml).getElementsByTagNameNS(W, 'body')[0];
+  if (!body) throw new Error('The Word document has no body.');
+
+  let title = '';
+  const blocks: string[] = [];
+  const walk = (container: Element) => {
+    for (const el of Array.from(container.children)) {
+      if (el.localName === 'p') {
+        const segments = collectSegments(el, context, []);
+        const text = formatSegments(segments).trim();
+        if (!text) continue;
+        const level = headingLevel(el, context);
+        const heading = plainText(segments);
+        if (level === 0 && !title) title = heading;
+        // Standard section names are section boundaries whatever level the author gave them
+        else if (level === 1 || (level !== null && level > 1 && matchHeading(heading))) blocks.push(`# ${heading}`);
+        else if (level !== null && level > 1) blocks.push(`## ${heading}`);
+        else blocks.push(text);
+      } else if (el.localName === 'tbl') {
+        blocks.push(tableText(el, context));
+      } else if (el.localName === 'sdt') {
+        const content = child(el, 'sdtContent');
+        if (content) walk(content);
+      }
+    }
+  };
+  walk(body);
+
+  const hasReferences = blocks.some(block => /^(References|Bibliography)$/.test(matchHeading(block) || ''));
+  if (endnotes.length && !hasReferences) {
+    blocks.push('# References', ...endnotes.map((note, i) => `${i + 1}. ${note.text}`));
+  }
+
+  return { title, text: blocks.join('\n\n') };
+};
@@ -0,0 +1,166 @@
+import { GoogleGenAI, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { LLMProvider, ProviderConfig, JsonSchema, ImageResponse, TokenUsage, StreamChunk, GenerationParams } from "./llmProvider";
+import { ProviderError } from "./serviceErrors";
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN
+};
+
+// Convert the neutral JSON-Schema subset into Gemini's responseSchema format
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const result: Schema = { type: SCHEMA_TYPES[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = {};
+    for (const [key, value] of Object.entries(schema.properties)) {
+      result.properties[key] = toGeminiSchema(value);
+    }
+  }
+  return result;
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Gemini reports safety blocks inside an otherwise successful (200) response
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ProviderError('SAFETY_BLOCKED', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new ProviderError('SAFETY_BLOCKED', `Response blocked: ${finishReason}`);
+  }
+};
+
+// Thinking tokens are billed as output
+const usageOf = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount || 0,
+    outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0)
+  };
+};
+
+async function* readStream(stream: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<StreamChunk> {
+  // Every chunk carries cumulative usage metadata; the last one is the total
+  let usage: TokenUsage | undefined;
+  for await (const chunk of stream) {
+    assertNotBlocked(chunk);
+    usage = usageOf(chunk) || usage;
+    if (chunk.text) yield { text: chunk.text };
+  }
+  if (usage) yield { text: '', usage };
+}
+
+const generationConfig = (request: GenerationParams) => ({
+  temperature: request.temperature,
+  maxOutputTokens: request.maxOutputTokens,
+  thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined
+});
+
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+  // Prefer an explicitly configured key, otherwise the one injected by AI Studio / .env.local
+  const ai = new GoogleGenAI({ apiKey: config.apiKey || process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+    models: config.models,
+
+    async generateText(request) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: request.model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          ...generationConfig(request),
+          abortSignal: request.signal,
+        }
+      });
+      assertNotBlocked(response);
+      return { text: response.text || '', usage: usageOf(response) };
+    },
+
+    async generateJson(request) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: request.model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          ...generationConfig(request),
+          abortSignal: request.signal,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema)
+        }
+      });
+      assertNotBlocked(response);
+      return { text: response.text || '', usage: usageOf(response) };
+    },
+
+    async *streamText(request) {
+      yield* readStream(await ai.models.generateContentStream({
+        model: request.model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          ...generationConfig(request),
+          abortSignal: request.signal,
+        }
+      }));
+    },
+
+    async *streamChat(request) {
+      yield* readStream(await ai.models.generateContentStream({
+        model: request.model,
+        contents: [
+          ...request.history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+          { role: 'user', parts: [{ text: request.message }] }
+        ],
+        config: {
+          systemInstruction: request.systemInstruction,
+          ...generationConfig(request),
+          abortSignal: request.signal,
+        }
+      }));
+    },
+
+    async generateImage(request) {
+      const parts: any[] = [];
+      if (request.inputImage) {
+        parts.push({ inlineData: { data: request.inputImage.data, mimeType: request.inputImage.mimeType } });
+      }
+      parts.push({ text: request.prompt });
+
+      // Only the Pro image model supports structured imageConfig; Flash gets it baked into the prompt
+      const config = request.aspectRatio || request.imageSize
+        ? { imageConfig: { aspectRatio: request.aspectRatio, imageSize: request.imageSize }, ...generationConfig(request), abortSignal: request.signal }
+        : { ...generationConfig(request), abortSignal: request.signal };
+
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: request.model,
+        contents: { parts: parts },
+        config: config
+      });
+
+      assertNotBlocked(response);
+      const result: ImageResponse = { text: '', usage: usageOf(response) };
+      // Iterate parts to find text and image
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.text) result.text += part.text;
+        if (part.inlineData?.data) {
+          result.image = { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+        }
+      }
+      return result;
+    }
+  };
+};
@@ -1,176 +1,213 @@
-import { GoogleGenAI, GenerateContentResponse, Chat, Type } from "@google/genai";
-import { AnalysisType, CoverLetterParams, JournalEvaluationResult, JournalGuidelines } from "../types";
-
-// Helper to get a fresh AI client instance with the latest API key
-const getAiClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { AnalysisId, AnalysisOutput, AnalysisType, CoverLetterParams, Covered, JournalEvaluationResult, JournalGuidelines, JournalSuggestion, ServiceResult } from "../types";
+import { getProvider, createChat, ChatSession, ChatTurn, CallOptions, StreamChunk } from "./llmProvider";
+import { ProviderError, failure } from "./serviceErrors";
+import { DigestOptions, PreparedText, prepareManuscriptText } from "./manuscriptDigest";
+import { ANALYSIS_TEMPLATES, fillTemplate, renderPrompt } from "./promptTemplates";
+import { parseAnalysisOutput } from "./analysisOutput";
+import { findCustomAnalysis } from "./customAnalyses";
+import { taskGeneration } from "./taskSettings";
+import { journalStyle, findJournalProfile, describeJournalProfile, describeWordLimits, getJournalProfiles } from "./journalProfiles";
+import { parseWithSchema } from "./schema";
+import { journalEvaluationSchema, journalGuidelinesSchema, journalSuggestionsSchema, logicCheckSchema } from "./responseSchemas";
+import { formatLogicCheck } from "./logicIssues";
+
+// All model calls go through the active provider (Gemini by default, or a self-hosted
+// OpenAI-compatible endpoint). Model IDs come from the provider settings unless a task overrides them
+// (taskSettings.ts):
+// - models.text: complex scientific text analysis
+// - models.fastImage: editing existing images AND standard generation
+// - models.proImage: high-fidelity (2K) generation (Text-to-Image only)
+// Prompt text lives in promptTemplates.ts and journal facts in journalProfiles.ts; this module only fills in the variables.
+
+// Accumulates a text stream, reporting the text so far after every chunk
+const collectStream = async (stream: AsyncGenerator<StreamChunk>, onText: (partial: string) => void) => {
+  let output = '';
+  for await (const chunk of stream) {
+    if (!chunk.text) continue;
+    output += chunk.text;
+    onText(output);
+  }
+  return output;
 };
 
-// Use Preview Pro for complex scientific text analysis
-const TEXT_MODEL = 'gemini-3-pro-preview';
-// Use Flash Image (Nano Banana) for editing existing images AND standard generation
-const FLASH_IMAGE_MODEL = 'gemini-2.5-flash-image';
-// Use Pro Image (Nano Banana Pro) for high-fidelity (2K) generation (Text-to-Image only)
-const PRO_IMAGE_MODEL = 'gemini-3-pro-image-preview';
-
-const getJournalStyleParams = (journal: string) => {
-  const j = journal.toLowerCase();
-  if (j.includes('nature') || j.includes('science')) {
-    return {
-      focus: "Broad conceptual advance, accessibility to non-specialists, and 'punchy' concise writing.",
-      tone: "Authoritative, high-impact, and devoid of unnecessary jargon."
-    };
-  }
-  if (j.includes('cell') || j.includes('molecular cell')) {
+// Text budgets for the manuscript body; longer manuscripts are sent as a section digest instead
+const COVER_LETTER_TEXT_LIMIT = 50000;
+const SUGGEST_TEXT_LIMIT = 60000;
+const EVALUATE_TEXT_LIMIT = 50000;
+
+const manuscriptBlock = (label: string, prepared: PreparedText) =>
+  prepared.coverage.mode === 'full'
+    ? `${label}:\n  "${prepared.text}"`
+    : `${label} (DIGEST - the full text was too long, so every section was summarized into findings, methods, claims and limitations):\n${prepared.text}`;
+
+// Appended to a custom system instruction so rewrites can still be split from the notes
+const REWRITE_FORMAT = `Format your answer as a line "## Rewrite" followed by the complete rewritten text only, then a line "## Editor's Notes" followed by a bulleted list explaining the changes.`;
+
+const buildAnalysisPrompt = (text: string, type: AnalysisId, targetJournal: string) => {
+  const style = journalStyle(targetJournal);
+  const variables = {
+    journal: targetJournal,
+    focus: style.focus,
+    tone: style.tone,
+    text,
+    wordLimits: describeWordLimits(findJournalProfile(targetJournal))
+  };
+  const system = renderPrompt('analysis.system', variables);
+  const custom = findCustomAnalysis(type);
+  if (custom) {
+    const systemInstruction = custom.systemInstruction?.trim()
+      ? [fillTemplate(custom.systemInstruction, variables), custom.output === 'rewrite' ? REWRITE_FORMAT : ''].filter(Boolean).join('\n\n')
+      : system.text;
     return {
-      focus: "Deep mechanistic insight, logical completeness, and a structured, comprehensive narrative.",
-      tone: "Scholarly, detailed, and logically rigorous."
+      request: {
+        prompt: fillTemplate(custom.promptTemplate, variables),
+        systemInstruction,
+        ...(custom.temperature !== undefined && { temperature: custom.temperature })
+      },
+      promptVersions: [...(custom.systemInstruction?.trim() ? [] : [system.version]), `${custom.id}@r${custom.revision || 1}`]
     };
   }
-  if (j.includes('journal of cell biology') || j.includes('jcb') || j.includes('current biology')) {
-    return {
-      focus: "Solid experimental data, clear cell biological mechanisms, and avoiding over-interpretation.",
-      tone: "Measured, precise, and data-driven."
-    };
+  // A custom analysis deleted since it was selected (or saved in a project's batch settings)
+  if (!Object.values(AnalysisType).includes(type as AnalysisType)) {
+    throw new ProviderError('UNKNOWN', `The custom analysis "${type}" no longer exists. Choose another analysis.`);
   }
+  const prompt = renderPrompt(ANALYSIS_TEMPLATES[type as AnalysisType], variables);
   return {
-    focus: "Clarity, novelty within the specific field, and methodological soundness.",
-    tone: "Professional and constructive."
+    request: { prompt: prompt.text, systemInstruction: system.text },
+    promptVersions: [system.version, prompt.version]
   };
 };
 
-export const analyzeManuscriptText = async (text: string, type: AnalysisType, targetJournal: string): Promise<string> => {
-  const ai = getAiClient();
-  const style = getJournalStyleParams(targetJournal);
-  
-  const systemInstruction = `
-    You are a Senior Editor at ${targetJournal}. 
-    Your role is to assist researchers in refining their manuscripts to meet the specific standards of ${targetJournal}.
-    
-    Journal Style Priorities:
-    1. ${style.focus}
-    2. Tone: ${style.tone}
-    
-    When providing output:
-    - If asking for a rewrite, provide the rewritten text clearly.
-    - Provide a bulleted list of "Editor's Notes" explaining *why* changes were made to fit ${targetJournal}.
-  `;
-
-  let prompt = "";
-
-  switch (type) {
-    case AnalysisType.IMPACT_POLISH:
-      prompt = `
-      Please polish the following text specifically for submission to **${targetJournal}**. 
-      
-      Goals:
-      - Enhance the flow and readability.
-      - Ensure the significance is communicated in a way that suits ${targetJournal}'s audience.
-      - Use active voice.
-      
-      Text to Polish:
-      "${text}"
-      `;
-      break;
-    case AnalysisType.LOGIC_CHECK:
-      prompt = `
-      Analyze the scientific logic of the following text as a reviewer for **${targetJournal}**. 
-      Identify potential gaps in reasoning, over-interpretation of data, or places where more experimental evidence might be requested by ${targetJournal} reviewers.
-      
-      Text to Analyze:
-      "${text}"
-      `;
-      break;
-    case AnalysisType.CONCISENESS:
-      prompt = `
-      Significantly shorten the following text while retaining all key scientific meaning.
-      Aim for a word count reduction suitable for **${targetJournal}**'s strict formatting limits.
-      
-      Text to Shorten:
-      "${text}"
-      `;
-      break;
-    case AnalysisType.REBUTTAL:
-        prompt = `
-        The user has provided a draft response to a reviewer or a specific reviewer comment for a manuscript submitted to **${targetJournal}**.
-        Refine this response to be polite, professional, firm yet conciliatory, adhering to standard conventions.
-        
-        Draft Response/Comment:
-        "${text}"
-        `;
-        break;
+// Logic Check answers with structured issues instead of prose; the notes are a plain-text rendering of them
+const checkLogic = async (text: string, targetJournal: string, options: CallOptions): Promise<ServiceResult<AnalysisOutput>> => {
+  try {
+    const provider = getProvider();
+    const { request, promptVersions } = buildAnalysisPrompt(text, AnalysisType.LOGIC_CHECK, targetJournal);
+    const response = await provider.generateJson({
+      task: 'analyzeManuscriptText',
+      ...taskGeneration('analysis', provider),
+      ...request,
+      ...options,
+      schema: logicCheckSchema.json
+    });
+    const result = parseWithSchema(response.text, logicCheckSchema);
+    const notes = formatLogicCheck(result);
+    return { status: 'ok', value: { text: notes, notes, logicCheck: result, promptVersions } };
+  } catch (error) {
+    return failure("checking the logic", error);
   }
+};
 
+export const analyzeManuscriptText = async (text: string, type: AnalysisId, targetJournal: string, options: CallOptions = {}): Promise<ServiceResult<AnalysisOutput>> => {
+  if (type === AnalysisType.LOGIC_CHECK) return checkLogic(text, targetJournal, options);
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.3,
-      }
+    const provider = getProvider();
+    const { request, promptVersions } = buildAnalysisPrompt(text, type, targetJournal);
+    const response = await provider.generateText({
+      task: 'analyzeManuscriptText',
+      ...taskGeneration('analysis', provider),
+      ...request,
+      ...options,
     });
-    return response.text || "No response generated.";
+    if (!response.text) {
+      throw new ProviderError('UNKNOWN', "No response generated.");
+    }
+    return { status: 'ok', value: { text: response.text, ...parseAnalysisOutput(response.text, type), promptVersions } };
   } catch (error) {
-    console.error("Error analyzing text:", error);
-    return "Error: Unable to analyze text at this time. Please check your input and try again.";
+    return failure("analyzing text", error);
   }
 };
 
-export const generateCoverLetter = async (params: CoverLetterParams, targetJournal: string): Promise<string> => {
-  const ai = getAiClient();
-  const style = getJournalStyleParams(targetJournal);
-
-  const prompt = `
-  Act as a Senior Editor helping to draft a high-impact Cover Letter for submission to **${targetJournal}**.
-  
-  Manuscript Details:
-  - Title: ${params.title}
-  - Corresponding Author: ${params.authorName}
-  - Affiliation: ${params.affiliation}
-  - Editor Name: ${params.editorName || "the Editor"}
-  
-  Abstract:
-  "${params.abstract}"
-
-  Manuscript Content (Intro/Results/Discussion):
-  "${params.manuscriptText.substring(0, 50000)}"
+// Streaming variant: onText receives the partial output, the result is the complete text
+export const streamManuscriptAnalysis = async (
+  text: string,
+  type: AnalysisId,
+  targetJournal: string,
+  onText: (partial: string) => void,
+  options: CallOptions = {}
+): Promise<ServiceResult<AnalysisOutput>> => {
+  // Structured answers are not streamed
+  if (type === AnalysisType.LOGIC_CHECK) return checkLogic(text, targetJournal, options);
+  try {
+    const provider = getProvider();
+    const { request, promptVersions } = buildAnalysisPrompt(text, type, targetJournal);
+    const output = await collectStream(provider.streamText({
+      task: 'analyzeManuscriptText',
+      ...taskGeneration('analysis', provider),
+      ...request,
+      ...options,
+    }), onText);
+    if (!output) {
+      throw new ProviderError('UNKNOWN', "No response generated.");
+    }
+    return { status: 'ok', value: { text: output, ...parseAnalysisOutput(output, type), promptVersions } };
+  } catch (error) {
+    return failure("analyzing text", error);
+  }
+};
 
-  Task:
-  1. Analyze the provided Abstract and Manuscript Content to extract the core novelty and conceptual advance.
-  2. Write a compelling cover letter that pitches this specific advance to **${targetJournal}**.
-  
-  Style Guide for ${targetJournal}:
-  - Focus: ${style.focus}
-  - Tone: ${style.tone}
-  
-  Structure:
-  - Standard professional opening.
-  - A strong "Hook" paragraph stating the major discovery immediately.
-  - A concise summary of the key findings and why they matter.
-  - A closing statement on why this fits ${targetJournal}'s scope.
-  - Standard sign-off.
-  `;
+const buildCoverLetterPrompt = (params: CoverLetterParams, targetJournal: string, manuscript: string) => {
+  const style = journalStyle(targetJournal);
+  return renderPrompt('coverLetter', {
+    journal: targetJournal,
+    title: params.title,
+    authorName: params.authorName,
+    affiliation: params.affiliation,
+    editorName: params.editorName || "the Editor",
+    abstract: params.abstract,
+    manuscript,
+    focus: style.focus,
+    tone: style.tone
+  }).text;
+};
 
+export const generateCoverLetter = async (params: CoverLetterParams, targetJournal: string, { onDigestProgress, ...options }: DigestOptions = {}): Promise<ServiceResult<Covered<string>>> => {
+  const provider = getProvider();
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        temperature: 0.6,
-      }
+    const manuscript = await prepareManuscriptText(params.manuscriptText, COVER_LETTER_TEXT_LIMIT, { onDigestProgress, ...options });
+    const response = await provider.generateText({
+      task: 'generateCoverLetter',
+      ...taskGeneration('coverLetter', provider),
+      prompt: buildCoverLetterPrompt(params, targetJournal, manuscriptBlock('Manuscript Content (Intro/Results/Discussion)', manuscript)),
+      ...options,
     });
-    return response.text || "Could not generate cover letter.";
+    if (!response.text) {
+      throw new ProviderError('UNKNOWN', "Could not generate cover letter.");
+    }
+    return { status: 'ok', value: { result: response.text, coverage: manuscript.coverage } };
+  } catch (error) {
+    return failure("generating cover letter", error);
+  }
+};
+
+export const streamCoverLetter = async (
+  params: CoverLetterParams,
+  targetJournal: string,
+  onText: (partial: string) => void,
+  { onDigestProgress, ...options }: DigestOptions = {}
+): Promise<ServiceResult<Covered<string>>> => {
+  const provider = getProvider();
+  try {
+    const manuscript = await prepareManuscriptText(params.manuscriptText, COVER_LETTER_TEXT_LIMIT, { onDigestProgress, ...options });
+    const output = await collectStream(provider.streamText({
+      task: 'generateCoverLetter',
+      ...taskGeneration('coverLetter', provider),
+      prompt: buildCoverLetterPrompt(params, targetJournal, manuscriptBlock('Manuscript Content (Intro/Results/Discussion)', manuscript)),
+      ...options,
+    }), onText);
+    if (!output) {
+      throw new ProviderError('UNKNOWN', "Could not generate cover letter.");
+    }
+    return { status: 'ok', value: { result: output, coverage: manuscript.coverage } };
   } catch (error) {
-    console.error("Error generating cover letter:", error);
-    return "Error generating cover letter.";
+    return failure("generating cover letter", error);
   }
 };
 
 /**
  * Interactively generates or edits a figure.
- * - Uses gemini-2.5-flash-image (Nano Banana) for ALL EDITING (Image Input).
- * - Uses gemini-3-pro-image-preview (Nano Banana Pro) ONLY for PURE GENERATION (Text Input + 2K).
+ * - Uses the fast image model (Gemini: Nano Banana) for ALL EDITING (Image Input).
+ * - Uses the pro image model (Gemini: Nano Banana Pro) ONLY for PURE GENERATION (Text Input + 2K).
  */
 export const generateOrEditFigure = async (
   prompt: string, 
@@ -178,112 +215,65 @@ export const generateOrEditFigure = async (
   aspectRatio: string,
   imageSize: string, 
   base64Image?: string, 
-  mimeType?: string
-): Promise<{ text: string, modifiedImage?: string }> => {
-  const ai = getAiClient();
+  mimeType?: string,
+  options: CallOptions = {}
+): Promise<ServiceResult<{ text: string, modifiedImage?: string }>> => {
+  const provider = getProvider();
   try {
     const hasInputImage = !!(base64Image && mimeType);
     
     // CRITICAL FIX: Pro model does NOT support input images (inlineData) for editing.
-    // We must force Flash (Nano Banana) if an image is provided, regardless of requested resolution.
+    // An uploaded image always goes to the edit task's model (Flash by default), regardless of requested resolution.
     const usePro = imageSize === '2K' && !hasInputImage;
-    const model = usePro ? PRO_IMAGE_MODEL : FLASH_IMAGE_MODEL;
+    const generation = taskGeneration(usePro ? 'figureHighRes' : hasInputImage ? 'figureEdit' : 'figureDraft', provider);
+    const figureSpecs = findJournalProfile(targetJournal)?.figureSpecs || "Follow standard journal figure conventions.";
     
-    const parts: any[] = [];
-    let config = {};
-
-    // 1. Handle Input Image (Edit Context)
-    if (hasInputImage) {
-      parts.push({
-        inlineData: {
-          data: base64Image,
-          mimeType: mimeType,
-        },
-      });
-    }
+    let instructions = "";
+    let imageConfig: { aspectRatio?: string, imageSize?: string } = {};
 
-    // 2. Handle Prompt & Instructions
+    // Handle Prompt & Instructions (the input image, if any, is attached by the provider)
     if (usePro) {
       // --- PRO PATH (Text-to-Image Generation 2K) ---
-      const proPrompt = `
-        You are an expert scientific illustrator for **${targetJournal}**. 
-        You specialize in creating figures that meet strict academic publication standards.
-        
-        Task: Generate a high-resolution (2K), publication-quality scientific figure.
-        User Request: "${prompt}"
-
-        ACADEMIC STANDARDS for ${targetJournal}:
-        - **Visual Style**: Flat, vector-graphic aesthetic (like Adobe Illustrator/BioRender).
-        - **Background**: Pure WHITE background. No gradients or textures.
-        - **Typography**: Clean, sans-serif fonts (Arial/Helvetica style). High contrast and legible.
-        - **Color Palette**: Professional, colorblind-safe palettes (e.g., Viridis, Okabe-Ito, or muted journal colors).
-        - **Rigor**: Scientific accuracy is paramount. Diagrams should be schematic and logical.
-      `;
-
-      parts.push({ text: proPrompt });
+      instructions = renderPrompt('figure.pro', { journal: targetJournal, request: prompt, figureSpecs }).text;
       
       // Pro supports structured config
-      config = {
-        imageConfig: {
-          aspectRatio: aspectRatio, 
-          imageSize: imageSize, 
-        }
+      imageConfig = {
+        aspectRatio: aspectRatio, 
+        imageSize: imageSize, 
       };
 
+    } else if (hasInputImage) {
+      // --- FLASH PATH: EDITING MODE ---
+      instructions = renderPrompt('figure.flashEdit', {
+        journal: targetJournal,
+        request: prompt,
+        figureSpecs,
+        resolutionNote: imageSize === '2K'
+          ? "Note: The user requested High Resolution. Please generate the highest quality output possible with clear details."
+          : ""
+      }).text;
     } else {
-      // --- FLASH PATH (Edits OR Standard Gen) ---
-      let flashPrompt = `You are an expert scientific illustrator for **${targetJournal}**.`;
-      
-      if (hasInputImage) {
-        // EDITING MODE
-        flashPrompt += `\nUser Request to EDIT/MODIFY this image: "${prompt}"
-        \nInstructions:
-        - Modify the provided image to satisfy the user's request.
-        - Maintain strict scientific accuracy and academic style.
-        - Ensure the background remains clean (preferably white).
-        - Provide a brief text summary of changes.`;
-        
-        if (imageSize === '2K') {
-            flashPrompt += `\nNote: The user requested High Resolution. Please generate the highest quality output possible with clear details.`;
-        }
-      } else {
-        // GENERATION MODE (1K / Fast)
-        flashPrompt += `\nUser Request to GENERATE a scientific figure: "${prompt}"
-        \nACADEMIC REQUIREMENTS:
-        - Style: Professional scientific illustration.
-        - Background: Pure WHITE.
-        - Content: accurate schematic or clear data visualization.
-        - Font: Sans-serif, legible.
-        - No artistic distortions.`;
-
-        // Flash (Nano Banana) does NOT support imageConfig. Bake into prompt.
-        const ratioMap: Record<string, string> = {
-          "1:1": "square (1:1 aspect ratio)",
-          "4:3": "standard landscape (4:3 aspect ratio)",
-          "16:9": "wide landscape (16:9 aspect ratio)"
-        };
-        flashPrompt += `\nOutput Format: Please generate a ${ratioMap[aspectRatio] || "square"} image.`;
-      }
-      
-      parts.push({ text: flashPrompt });
+      // --- FLASH PATH: GENERATION MODE (1K / Fast) ---
+      // Flash (Nano Banana) does NOT support imageConfig. Bake into prompt.
+      const ratioMap: Record<string, string> = {
+        "1:1": "square (1:1 aspect ratio)",
+        "4:3": "standard landscape (4:3 aspect ratio)",
+        "16:9": "wide landscape (16:9 aspect ratio)"
+      };
+      instructions = renderPrompt('figure.flashGenerate', { journal: targetJournal, request: prompt, aspectRatio: ratioMap[aspectRatio] || "square", figureSpecs }).text;
     }
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: model,
-      contents: { parts: parts },
-      config: config
+    const response = await provider.generateImage({
+      task: 'generateOrEditFigure',
+      ...generation,
+      prompt: instructions,
+      inputImage: hasInputImage ? { data: base64Image!, mimeType: mimeType! } : undefined,
+      ...imageConfig,
+      signal: options.signal
     });
 
-    let textOutput = "";
-    let imageOutput = undefined;
-
-    // Iterate parts to find text and image
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.text) textOutput += part.text;
-        if (part.inlineData) imageOutput = part.inlineData.data;
-      }
-    }
+    let textOutput = response.text;
+    const imageOutput = response.image?.data;
     
     if (!textOutput) {
       textOutput = hasInputImage && !imageOutput 
@@ -291,226 +281,107 @@ export const generateOrEditFigure = async (
         : `Processed figure for ${targetJournal}.`;
     }
 
-    return { text: textOutput, modifiedImage: imageOutput };
+    return { status: 'ok', value: { text: textOutput, modifiedImage: imageOutput } };
 
   } catch (error) {
-    console.error("Error processing figure:", error);
-    return { text: "Error processing figure request. Please ensure you have selected a valid API key." };
+    return failure("processing figure", error);
   }
 };
 
-export const getJournalGuidelines = async (journalName: string): Promise<JournalGuidelines | null> => {
-  const ai = getAiClient();
-  const prompt = `
-    Provide a structured summary of the submission guidelines for the academic journal: **${journalName}**.
-    
-    Focus on:
-    1. Typical Word Counts (Abstract, Article).
-    2. Figure/Formatting rules (Fonts, Panels).
-    3. Editorial Criteria (Scope, Novelty).
-
-    Return a JSON object adhering to the schema.
-  `;
+export const getJournalGuidelines = async (journalName: string, options: CallOptions = {}): Promise<ServiceResult<JournalGuidelines>> => {
+  const provider = getProvider();
+  const prompt = renderPrompt('journal.guidelines', { journal: journalName, profile: describeJournalProfile(journalName) }).text;
 
   try {
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            journalName: { type: Type.STRING },
-            wordCounts: {
-              type: Type.OBJECT,
-              properties: {
-                article: { type: Type.STRING },
-                abstract: { type: Type.STRING },
-                methods: { type: Type.STRING },
-              }
-            },
-            formatting: {
-              type: Type.OBJECT,
-              properties: {
-                figures: { type: Type.STRING },
-                references: { type: Type.STRING },
-                fonts: { type: Type.STRING },
-              }
-            },
-            editorialCriteria: {
-              type: Type.OBJECT,
-              properties: {
-                scope: { type: Type.STRING },
-                novelty: { type: Type.STRING },
-                dataRigor: { type: Type.STRING },
-              }
-            }
-          },
-          required: ["journalName", "wordCounts", "formatting", "editorialCriteria"]
-        }
-      }
+    const response = await provider.generateJson({
+      task: 'getJournalGuidelines',
+      ...taskGeneration('guidelines', provider),
+      prompt: prompt,
+      ...options,
+      schema: journalGuidelinesSchema.json
     });
 
-    if (response.text) {
-      return JSON.parse(response.text) as JournalGuidelines;
-    }
-    return null;
+    return { status: 'ok', value: parseWithSchema(response.text, journalGuidelinesSchema) };
   } catch (error) {
-    console.error("Error fetching guidelines:", error);
-    return null;
+    return failure("fetching guidelines", error);
   }
 };
 
-export const createChatSession = (): Chat => {
-  const ai = getAiClient();
-  return ai.chats.create({
-    model: TEXT_MODEL,
-    config: {
-      systemInstruction: `You are an intelligent research assistant for scientists submitting to top-tier biological journals.
-      You can answer questions about:
-      - Statistical analysis methods suitable for cell biology.
-      - Experimental design and controls (e.g., rescue experiments, validation).
-      - Clarifications on standard reviewer comments.
-      - General scientific writing advice.
-      
-      Maintain a helpful, scholarly, and precise tone.`,
-    }
+export const createChatSession = (): ChatSession => {
+  return createChat({
+    task: 'createChatSession',
+    ...taskGeneration('assistantChat'),
+    systemInstruction: renderPrompt('chat.assistant').text,
   });
 };
 
-export const createRefinementChat = (original: string, result: string, type: string, targetJournal: string): Chat => {
-  const ai = getAiClient();
-  return ai.chats.create({
-    model: TEXT_MODEL,
-    config: {
-      systemInstruction: `You are discussing a specific text revision for a manuscript targeted at **${targetJournal}**.
-      
-      Context:
-      - Analysis Type: ${type}
-      - Original User Text: "${original}"
-      - Your Previous Output/Revision: "${result}"
-      
-      The user will ask questions about your revision or ask for further adjustments.
-      Answer specifically about this text snippet and how it fits the style of ${targetJournal}. Be concise and helpful.`,
-    }
+// `history` resumes a saved thread
+export const createRefinementChat = (original: string, result: string, type: string, targetJournal: string, history: ChatTurn[] = []): ChatSession => {
+  return createChat({
+    task: 'createRefinementChat',
+    ...taskGeneration('refinementChat'),
+    systemInstruction: renderPrompt('chat.refinement', { journal: targetJournal, type, original, result }).text,
+    history
   });
 };
 
-export const suggestTargetJournals = async (title: string, abstract: string, fullText: string): Promise<any[]> => {
-  const ai = getAiClient();
-  const prompt = `
-    You are a Senior Editor and Strategic Publication Consultant.
-    
-    Task: Recommend 3-5 academic journals for the following manuscript.
-    
-    CRITICAL INSTRUCTION:
-    You must perform a ruthless, objective assessment of the "Scientific Level" of the text. 
-    Do NOT suggest top-tier journals (Nature, Cell, NCB) just because the topic (Scope) matches.
-    Only suggest them if the data quality, depth of mechanism, and conceptual novelty actually meet that bar.
-    
-    Tiers to consider:
-    - **Top Tier (Nature, Cell, Science)**: Paradigm-shifting, massive in vivo data, broad interest.
-    - **High Impact (NCB, Mol Cell, Dev Cell)**: Deep mechanism, complete story, strong novelty.
-    - **Solid Mid-Tier (J Cell Sci, J Biol Chem, MBoC, J Cell Biol)**: Solid execution, incremental advance, or descriptive mechanism.
-    - **Specialized/Reports**: Preliminary data or very niche focus.
-
-    Manuscript Information:
-    Title: "${title}"
-    Abstract: "${abstract}"
-    Full Manuscript Text (Intro/Results/Discussion):
-    "${fullText.substring(0, 60000)}"
-    
-    If the paper appears to be a "Solid Mid-Tier" quality, primarily suggest those, perhaps with one "Reach" option, but explicitly state in the qualityAnalysis why it might fall short of top tier (e.g. "Lacks in vivo rescue", "Mechanism is correlative").
-
-    Return a JSON array.
-  `;
+export const suggestTargetJournals = async (title: string, abstract: string, fullText: string, { onDigestProgress, ...options }: DigestOptions = {}): Promise<ServiceResult<Covered<JournalSuggestion[]>>> => {
+  const provider = getProvider();
+  let manuscript: PreparedText;
+  try {
+    manuscript = await prepareManuscriptText(fullText, SUGGEST_TEXT_LIMIT, { onDigestProgress, ...options });
+  } catch (error) {
+    return failure("summarizing manuscript", error);
+  }
+  const prompt = renderPrompt('journal.tierRubric', {
+    title,
+    abstract,
+    manuscript: manuscriptBlock('Full Manuscript Text (Intro/Results/Discussion)', manuscript),
+    knownJournals: getJournalProfiles().map(p => `- ${p.name} (${p.tier}): ${p.focus}`).join('\n')
+  }).text;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "Name of the journal" },
-              matchScore: { type: Type.INTEGER, description: "0-100. Weighted heavily by quality fit, not just topic fit." },
-              tier: { type: Type.STRING, description: "e.g. Top Tier, High Impact, Solid Mid-Tier, Specialized" },
-              rationale: { type: Type.STRING, description: "Why does this topic fit the journal's scope? (Subject matter only)" },
-              qualityAnalysis: { type: Type.STRING, description: "Critical assessment of why the paper's QUALITY fits this tier. Be specific about data depth/novelty." },
-              advice: { type: Type.STRING, description: "Specific advice to improve acceptance odds." }
-            },
-            required: ["name", "matchScore", "tier", "rationale", "qualityAnalysis", "advice"]
-          }
-        }
-      }
+    const response = await provider.generateJson({
+      task: 'suggestTargetJournals',
+      ...taskGeneration('journalMatching', provider),
+      prompt: prompt,
+      ...options,
+      schema: journalSuggestionsSchema.json
     });
 
-    if (response.text) {
-      return JSON.parse(response.text);
-    }
-    return [];
+    return { status: 'ok', value: { result: parseWithSchema(response.text, journalSuggestionsSchema), coverage: manuscript.coverage } };
   } catch (error) {
-    console.error("Error suggesting journals:", error);
-    return [];
+    return failure("suggesting journals", error);
   }
 };
 
-export const evaluateJournalFit = async (title: string, abstract: string, fullText: string, journalName: string): Promise<JournalEvaluationResult | null> => {
-  const ai = getAiClient();
-  const prompt = `
-    Act as a Senior Editor at the journal: "${journalName}".
-    
-    Your Task: Evaluate the suitability of the following manuscript for *your* specific journal.
-    
-    CRITICAL: You must distinguish between SCOPE (topic) and LEVEL (quality/impact).
-    - A paper can be perfectly in scope (e.g., cell biology) but rejected because it is "incremental" or "lacks mechanism".
-    - Be honest. If the text provided is not up to the standard of "${journalName}", say so.
-    
-    Manuscript:
-    Title: "${title}"
-    Abstract: "${abstract}"
-    Partial Full Text: "${fullText.substring(0, 50000)}"
-
-    Analyze:
-    1. Scope Match.
-    2. Novelty/Impact sufficiency for this tier.
-    3. Rigor/Quality of data presented.
-
-    Return a JSON object.
-  `;
+export const evaluateJournalFit = async (title: string, abstract: string, fullText: string, journalName: string, { onDigestProgress, ...options }: DigestOptions = {}): Promise<ServiceResult<Covered<JournalEvaluationResult>>> => {
+  const provider = getProvider();
+  let manuscript: PreparedText;
+  try {
+    manuscript = await prepareManuscriptText(fullText, EVALUATE_TEXT_LIMIT, { onDigestProgress, ...options });
+  } catch (error) {
+    return failure("summarizing manuscript", error);
+  }
+  const prompt = renderPrompt('journal.fitEvaluation', {
+    journal: journalName,
+    title,
+    abstract,
+    manuscript: manuscriptBlock('Full Text', manuscript),
+    profile: describeJournalProfile(journalName)
+  }).text;
 
   try {
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            journalName: { type: Type.STRING },
-            matchScore: { type: Type.INTEGER, description: "0-100. If quality is too low for this journal, score must be low (<50)." },
-            verdict: { type: Type.STRING, enum: ["Strong Candidate", "Worth Trying", "High Risk", "Out of Scope", "Insufficient Quality/Novelty"] },
-            strengths: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of 3 key strengths" },
-            weaknesses: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of 3 key weaknesses (e.g. lack of mechanism, limited novelty)" },
-            editorComments: { type: Type.STRING, description: "Internal decision note focusing on whether the bar for impact/novelty is met." }
-          },
-          required: ["journalName", "matchScore", "verdict", "strengths", "weaknesses", "editorComments"]
-        }
-      }
+    const response = await provider.generateJson({
+      task: 'evaluateJournalFit',
+      ...taskGeneration('journalMatching', provider),
+      prompt: prompt,
+      ...options,
+      schema: journalEvaluationSchema.json
     });
     
-    if (response.text) {
-      return JSON.parse(response.text) as JournalEvaluationResult;
-    }
-    return null;
+    return { status: 'ok', value: { result: parseWithSchema(response.text, journalEvaluationSchema), coverage: manuscript.coverage } };
   } catch (error) {
-    console.error("Error evaluating journal fit:", error);
-    return null;
+    return failure("evaluating journal fit", error);
   }
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { HunkDecision } from "../types";
+import { DiffPart } from "./textDiff";
+
+// A rewrite reviewed change by change: the word diff is cut into hunks (each changed stretch between
+// unchanged text), every hunk can be accepted, rejected or replaced with the author's own wording, and
+// the merged text keeps the original wording wherever no decision was made.
+
+export interface Hunk {
+  index: number;
+  before: string;
+  after: string;
+}
+
+export type DiffSegment = { kind: 'equal'; text: string } | { kind: 'hunk'; hunk: Hunk };
+
+// Whitespace both sides of a replacement start or end with is unchanged text, not part of the change
+const sharedSpace = (before: string, after: string, atEnd: boolean) => {
+  const pattern = atEnd ? /\s*$/ : /^\s*/;
+  const [shorter, longer] = [before.match(pattern)![0], after.match(pattern)![0]].sort((x, y) => x.length - y.length);
+  return (atEnd ? longer.endsWith(shorter) : longer.startsWith(shorter)) ? shorter : '';
+};
+
+export const toSegments = (parts: DiffPart[]): DiffSegment[] => {
+  const hunks: (Hunk | string)[] = [];
+  for (const part of parts) {
+    const last = hunks[hunks.length - 1];
+    if (part.op === 'equal') hunks.push(part.text);
+    else if (typeof last === 'object' && part.op === 'insert' && !last.after) last.after = part.text;
+    else hunks.push({ index: 0, before: part.op === 'delete' ? part.text : '', after: part.op === 'insert' ? part.text : '' });
+  }
+  const segments: DiffSegment[] = [];
+  let index = 0;
+  for (const item of hunks) {
+    if (typeof item === 'string') {
+      segments.push({ kind: 'equal', text: item });
+      continue;
+    }
+    let { before, after } = item;
+    const lead = before && after ? sharedSpace(before, after, false) : '';
+    const trail = before && after ? sharedSpace(before.slice(lead.length), after.slice(lead.length), true) : '';
+    before = before.slice(lead.length, before.length - trail.length);
+    after = after.slice(lead.length, after.length - trail.length);
+    if (lead) segments.push({ kind: 'equal', text: lead });
+    segments.push({ kind: 'hunk', hunk: { index: index++, before, after } });
+    if (trail) segments.push({ kind: 'equal', text: trail });
+  }
+  return segments;
+};
+
+export const hunksOf = (segments: DiffSegment[]) =>
+  segments.flatMap(segment => segment.kind === 'hunk' ? [segment.hunk] : []);
+
+// The decision in force for each hunk: the trail keeps every decision, the latest one counts
+export const currentDecisions = (trail: HunkDecision[] = []) => {
+  const decisions = new Map<number, HunkDecision>();
+  for (const decision of trail) decisions.set(decision.hunk, decision);
+  return decisions;
+};
+
+// Text a hunk contributes under its decision; undecided hunks keep the original wording
+export const hunkText = (hunk: Hunk, decision?: HunkDecision) => {
+  if (!decision || decision.status === 'rejected') return hunk.before;
+  return decision.status === 'edited' ? decision.text ?? hunk.after : hunk.after;
+};
+
+export const mergeHunks = (segments: DiffSegment[], trail: HunkDecision[] = []) => {
+  const decisions = currentDecisions(trail);
+  return segments.map(segment => segment.kind === 'equal' ? segment.text : hunkText(segment.hunk, decisions.get(segment.hunk.index))).join('');
+};
@@ -0,0 +1,58 @@
+// Tiny promise wrapper around IndexedDB. Every store uses out-of-line string keys.
+
+const DB_NAME = 'manuscript-pilot';
+const DB_VERSION = 4;
+// Add new store names here and bump DB_VERSION; missing stores are created on upgrade.
+const STORES = ['fixtures', 'responseCache', 'usageLedger', 'projects'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: string) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = <T>(store: StoreName, key: string, value: T) =>
+  run<IDBValidKey>(store, 'readwrite', s => s.put(value, key));
+
+export const idbDelete = (store: StoreName, key: string) =>
+  run<undefined>(store, 'readwrite', s => s.delete(key));
+
+export const idbClear = (store: StoreName) =>
+  run<undefined>(store, 'readwrite', s => s.clear());
+
+export const idbCount = (store: StoreName) =>
+  run<number>(store, 'readonly', s => s.count());
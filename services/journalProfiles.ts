@@ -0,0 +1,172 @@
+import bundled from "../data/journalProfiles.json";
+import { Infer, array, integer, object, oneOf, string } from "./schema";
+
+// Journal profiles (focus, tone, limits, reference and figure rules) that the prompts are built from.
+// The bundled set ships in data/journalProfiles.json; users can edit, add, remove, import and export
+// profiles, which are stored as changes on top of the bundled set so shipped updates still arrive.
+
+export const JOURNAL_TIERS = ["Top Tier", "High Impact", "Solid Mid-Tier", "Specialized"] as const;
+
+export const journalProfileSchema = object({
+  id: string(),
+  name: string(),
+  aliases: array(string()),
+  tier: oneOf(JOURNAL_TIERS),
+  focus: string(),
+  tone: string(),
+  wordLimits: object({
+    abstract: integer({ min: 0 }),
+    mainText: integer({ min: 0 })
+  }, { optional: ['abstract', 'mainText'] }),
+  referenceStyle: string(),
+  figureSpecs: string()
+}, { optional: ['aliases', 'wordLimits', 'referenceStyle', 'figureSpecs'] });
+
+export type JournalProfile = Infer<typeof journalProfileSchema>;
+
+const journalProfileFileSchema = object({
+  version: integer(),
+  profiles: array(journalProfileSchema)
+});
+
+export type JournalProfileFile = Infer<typeof journalProfileFileSchema>;
+
+// Used for journals without a profile
+export const DEFAULT_JOURNAL_STYLE = {
+  focus: "Clarity, novelty within the specific field, and methodological soundness.",
+  tone: "Professional and constructive."
+};
+
+const BUNDLED_PROFILES: JournalProfile[] = journalProfileFileSchema.parse(bundled).profiles;
+
+interface StoredProfiles {
+  // Edited bundled profiles and user-added ones, by id
+  edited: JournalProfile[];
+  // Ids of bundled profiles the user removed
+  removed: string[];
+}
+
+const STORAGE_KEY = 'manuscriptPilot.journalProfiles';
+
+const readStored = (): StoredProfiles => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { edited: [], removed: [], ...JSON.parse(raw) } : { edited: [], removed: [] };
+  } catch {
+    return { edited: [], removed: [] };
+  }
+};
+
+const merge = (stored: StoredProfiles): JournalProfile[] => {
+  const edited = new Map(stored.edited.map(p => [p.id, p]));
+  const merged = BUNDLED_PROFILES
+    .filter(p => !stored.removed.includes(p.id))
+    .map(p => edited.get(p.id) || p);
+  const added = stored.edited.filter(p => !BUNDLED_PROFILES.some(b => b.id === p.id));
+  return [...merged, ...added];
+};
+
+// --- Store ---
+
+let profiles = merge(readStored());
+const listeners = new Set<() => void>();
+
+const writeStored = (stored: StoredProfiles) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  profiles = merge(stored);
+  listeners.forEach(listener => listener());
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribeJournalProfiles = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getJournalProfiles = () => profiles;
+
+export const isBundledProfile = (id: string) => BUNDLED_PROFILES.some(p => p.id === id);
+
+export const isEditedProfile = (id: string) => readStored().edited.some(p => p.id === id);
+
+export const saveJournalProfile = (profile: JournalProfile) => {
+  const stored = readStored();
+  writeStored({
+    edited: [...stored.edited.filter(p => p.id !== profile.id), profile],
+    removed: stored.removed.filter(id => id !== profile.id)
+  });
+};
+
+export const deleteJournalProfile = (id: string) => {
+  const stored = readStored();
+  writeStored({
+    edited: stored.edited.filter(p => p.id !== id),
+    removed: isBundledProfile(id) && !stored.removed.includes(id) ? [...stored.removed, id] : stored.removed
+  });
+};
+
+// Drops the user's edit of a bundled profile
+export const revertJournalProfile = (id: string) => {
+  const stored = readStored();
+  writeStored({ ...stored, edited: stored.edited.filter(p => p.id !== id) });
+};
+
+export const resetJournalProfiles = () => writeStored({ edited: [], removed: [] });
+
+export const newProfileId = (name: string) => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'journal';
+  let id = base;
+  for (let n = 2; profiles.some(p => p.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+export const exportJournalProfiles = (): JournalProfileFile => ({ version: 1, profiles });
+
+// Adds or replaces profiles by id; returns how many were imported
+export const importJournalProfiles = (data: unknown): number => {
+  const file = journalProfileFileSchema.parse(data);
+  const ids = new Set(file.profiles.map(p => p.id));
+  const stored = readStored();
+  writeStored({
+    edited: [...stored.edited.filter(p => !ids.has(p.id)), ...file.profiles],
+    removed: stored.removed.filter(id => !ids.has(id))
+  });
+  return file.profiles.length;
+};
+
+// --- Lookup ---
+
+const normalize = (name: string) => name.toLowerCase().replace(/^the\s+/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Exact match on the name or an alias (case and punctuation aside); "Cell Reports" never matches "Cell"
+export const findJournalProfile = (journal: string): JournalProfile | undefined => {
+  const key = normalize(journal);
+  return profiles.find(p => normalize(p.name) === key || (p.aliases || []).some(a => normalize(a) === key));
+};
+
+export const journalStyle = (journal: string) => {
+  const profile = findJournalProfile(journal);
+  return profile ? { focus: profile.focus, tone: profile.tone } : DEFAULT_JOURNAL_STYLE;
+};
+
+export const describeWordLimits = (profile: JournalProfile | undefined) => {
+  const limits = profile?.wordLimits;
+  const parts = [
+    limits?.abstract ? `abstract ${limits.abstract} words` : '',
+    limits?.mainText ? `main text about ${limits.mainText} words` : ''
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'not specified';
+};
+
+// Profile facts for prompts; empty when the journal is unknown
+export const describeJournalProfile = (journal: string) => {
+  const profile = findJournalProfile(journal);
+  if (!profile) return '';
+  return [
+    `Tier: ${profile.tier}`,
+    `Editorial focus: ${profile.focus}`,
+    `Word limits: ${describeWordLimits(profile)}`,
+    profile.referenceStyle ? `Reference style: ${profile.referenceStyle}` : '',
+    profile.figureSpecs ? `Figures: ${profile.figureSpecs}` : ''
+  ].filter(Boolean).join('\n');
+};
@@ -0,0 +1,122 @@
+import { LatexSource, SourceParagraph } from "../types";
+
+// Writes the current manuscript text back into the imported LaTeX files. The paragraphs as imported
+// are aligned with the current ones; only paragraphs that changed are replaced, inside their original
+// source spans, so preamble, macros, comments between paragraphs, tables and figure code stay as they were.
+
+export interface LatexExport {
+  // Only the files that changed
+  files: Record<string, string>;
+  changedParagraphs: number;
+  // Changes that could not be placed in the source
+  skipped: string[];
+}
+
+interface Edit {
+  file: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const splitParagraphs = (text: string) => text.split(/\n[ \t]*\n/).map(p => p.trim()).filter(Boolean);
+
+const preview = (text: string) => `"${text.length > 60 ? text.slice(0, 57) + '...' : text}"`;
+
+// Longest common subsequence of two paragraph lists, as matched index pairs
+const alignParagraphs = (a: string[], b: string[]): [number, number][] => {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) pairs.push([i++, j++]);
+    else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) i++;
+    else j++;
+  }
+  return pairs;
+};
+
+const isBody = (p: SourceParagraph) => p.file !== undefined && !p.prefix;
+
+// Citation keys and cross-reference labels: \cite{a,b}, \citep[...]{c}, \ref{fig:x}, \eqref{...}
+const KEYED_COMMAND = /\\(?:[a-zA-Z]*cite[a-zA-Z]*|[a-zA-Z]*ref)\*?(?:\[[^\]]*\]){0,2}\{([^}]*)\}/g;
+
+const keysIn = (text: string) =>
+  new Set([...text.matchAll(KEYED_COMMAND)].flatMap(m => m[1].split(',').map(key => key.trim()).filter(Boolean)));
+
+export const exportLatex = (source: LatexSource, text: string): LatexExport => {
+  const original = source.paragraphs;
+  const current = splitParagraphs(text);
+  const pairs = alignParagraphs(original.map(p => p.text), current);
+  const edits: Edit[] = [];
+  const skipped: string[] = [];
+  let changedParagraphs = 0;
+
+  // A rewrite that lost a \cite or \ref is not written back; the citation would silently disappear
+  const addEdits = (change: Edit[], before: string, paragraphs: number) => {
+    const after = change.map(edit => edit.text).join('\n\n');
+    const kept = keysIn(after);
+    const lost = [...keysIn(before)].filter(key => !kept.has(key));
+    if (lost.length) {
+      skipped.push(`${preview(after.trim() || before)} drops ${lost.map(key => `{${key}}`).join(', ')}; restore the \\cite or \\ref to export it.`);
+      return;
+    }
+    edits.push(...change);
+    changedParagraphs += paragraphs;
+  };
+
+  // Replaces one imported paragraph with one current paragraph
+  const replace = (from: SourceParagraph, to: string) => {
+    if (from.file === undefined) {
+      skipped.push(`Generated text ${preview(from.text)} is not part of the LaTeX source.`);
+    } else if (from.prefix && !to.startsWith(from.prefix)) {
+      skipped.push(`${preview(to)} no longer starts with "${from.prefix.trim()}", so it cannot be written back as a ${from.prefix.startsWith('#') ? 'heading' : 'caption'}.`);
+    } else {
+      addEdits([{ file: from.file, start: from.start!, end: from.end!, text: to.slice(from.prefix?.length || 0) }], from.text, 1);
+    }
+  };
+
+  // Each gap between matched paragraphs is one change: removed imported paragraphs, added current ones
+  let prev: [number, number] = [-1, -1];
+  for (const next of [...pairs, [original.length, current.length] as [number, number]]) {
+    const removed = original.slice(prev[0] + 1, next[0]);
+    const added = current.slice(prev[1] + 1, next[1]);
+    const anchor = original[prev[0]];
+    prev = next;
+    if (!removed.length && !added.length) continue;
+
+    if (removed.length === added.length) {
+      removed.forEach((p, i) => replace(p, added[i]));
+    } else if (removed.length && removed.every(isBody)) {
+      // Paragraphs merged, split or deleted within running text: the new text takes the first paragraph's
+      // place and the others are emptied, so whatever sits between them in the source (figures, labels) stays
+      addEdits(
+        removed.map((p, i) => ({ file: p.file!, start: p.start!, end: p.end!, text: i === 0 ? added.join('\n\n') : '' })),
+        removed.map(p => p.text).join('\n\n'),
+        Math.max(removed.length, added.length)
+      );
+    } else if (!removed.length && anchor && anchor.file !== undefined) {
+      // New paragraphs after an unchanged one
+      addEdits([{ file: anchor.file, start: anchor.end!, end: anchor.end!, text: `\n\n${added.join('\n\n')}` }], '', added.length);
+    } else {
+      skipped.push(`Could not place the change near ${preview((added[0] || removed[0].text))} in the source.`);
+    }
+  }
+
+  // Apply from the end of each file so earlier offsets stay valid
+  const files: Record<string, string> = {};
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    const content = files[edit.file] ?? source.files[edit.file];
+    files[edit.file] = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+  }
+  return { files, changedParagraphs, skipped };
+};
@@ -0,0 +1,294 @@
+import { ManuscriptAuthor, ManuscriptFigure, SourceParagraph } from "../types";
+import { ImportedManuscript } from "./manuscript";
+
+// Reads a LaTeX project (.tex files and a .bib) into the app's plain-text form. Body paragraphs are
+// kept verbatim, macros, \cite and \ref included, and each one remembers its span in the source so
+// edits can be written back by latexExport. Sections become "# Title" lines, figure captions are
+// gathered into a "Figure legends" section and the cited .bib entries into a "References" section.
+
+const SECTION = /\\(section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{/y;
+const BEGIN = /\\begin\{(abstract|figure\*?|table\*?|thebibliography)\}/y;
+const INCLUDE = /\\(?:input|include)\{([^}]*)\}/y;
+const CITE = /\\(?:[a-zA-Z]*cite[a-zA-Z]*)\*?(?:\[[^\]]*\]){0,2}\{([^}]*)\}/g;
+
+// Index of the brace that closes the group opened at `open`
+const closingBrace = (src: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === '\\') i++;
+    else if (src[i] === '{') depth++;
+    else if (src[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Start of a %-comment on the line containing `index`, or -1
+const commentStart = (src: string, index: number) => {
+  for (let i = src.lastIndexOf('\n', index - 1) + 1; i < index; i++) {
+    if (src[i] === '\\') i++;
+    else if (src[i] === '%') return i;
+  }
+  return -1;
+};
+
+const stripComments = (src: string) => src.replace(/(^|[^\\])%.*$/gm, '$1');
+
+// Rough plain text for titles, names and bibliography fields
+export const latexToPlain = (src: string) => stripComments(src)
+  .replace(/\\\\/g, ' ')
+  .replace(/\\(?:thanks|footnote|inst|affil)\{[^{}]*\}/g, '')
+  .replace(/\$\^\{?[^$]*\}?\$/g, '')
+  .replace(/\\[a-zA-Z]+\*?(?:\[[^\]]*\])?\{([^{}]*)\}/g, '$1')
+  .replace(/\\[a-zA-Z]+\*?/g, '')
+  .replace(/[{}]/g, '')
+  .replace(/~/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// A block with nothing but commands and comments (\maketitle, \bibliography{...}, \label{...}) is not prose
+const isProse = (block: string) =>
+  stripComments(block).replace(/\\[a-zA-Z@]+\*?(?:\[[^\]]*\])*(?:\{[^{}]*\})*/g, '').trim().length > 0;
+
+const commandArgument = (src: string, command: string) => {
+  const match = new RegExp(`\\\\${command}\\s*(?:\\[[^\\]]*\\])?\\s*\\{`).exec(src);
+  if (!match || commentStart(src, match.index) >= 0) return null;
+  const open = match.index + match[0].length - 1;
+  const close = closingBrace(src, open);
+  return close < 0 ? null : { start: open + 1, end: close, text: src.slice(open + 1, close) };
+};
+
+interface BibEntry {
+  key: string;
+  fields: Record<string, string>;
+}
+
+const parseBib = (src: string): Map<string, BibEntry> => {
+  const entries = new Map<string, BibEntry>();
+  const entry = /@(\w+)\s*\{\s*([^,\s]+)\s*,/g;
+  let match;
+  while ((match = entry.exec(src))) {
+    if (/^(comment|string|preamble)$/i.test(match[1])) continue;
+    const open = src.indexOf('{', match.index);
+    const close = closingBrace(src, open);
+    const body = src.slice(entry.lastIndex, close < 0 ? undefined : close);
+    const fields: Record<string, string> = {};
+    const field = /(\w+)\s*=\s*/g;
+    let f;
+    while ((f = field.exec(body))) {
+      let value: string;
+      if (body[field.lastIndex] === '{') {
+        const end = closingBrace(body, field.lastIndex);
+        value = body.slice(field.lastIndex + 1, end < 0 ? undefined : end);
+        field.lastIndex = end < 0 ? body.length : end + 1;
+      } else if (body[field.lastIndex] === '"') {
+        const end = body.indexOf('"', field.lastIndex + 1);
+        value = body.slice(field.lastIndex + 1, end < 0 ? undefined : end);
+        field.lastIndex = end < 0 ? body.length : end + 1;
+      } else {
+        value = body.slice(field.lastIndex).match(/^[^,\n]*/)![0];
+      }
+      fields[f[1].toLowerCase()] = latexToPlain(value);
+    }
+    entries.set(match[2], { key: match[2], fields });
+    if (close > 0) entry.lastIndex = close;
+  }
+  return entries;
+};
+
+const formatBibEntry = ({ key, fields }: BibEntry) => {
+  const authors = (fields.author || '').split(/\s+and\s+/).filter(Boolean);
+  const byline = authors.length > 3 ? `${authors[0]} et al.` : authors.join(', ');
+  const parts = [
+    byline && fields.year ? `${byline} (${fields.year}).` : byline ? `${byline}.` : fields.year ? `(${fields.year}).` : '',
+    fields.title ? `${fields.title}.` : '',
+    fields.journal || fields.booktitle ? `${fields.journal || fields.booktitle}.` : ''
+  ].filter(Boolean);
+  return `[${key}] ${parts.join(' ') || 'No bibliography entry found.'}`;
+};
+
+const parseAuthors = (src: string): ManuscriptAuthor[] =>
+  latexToPlain(src.replace(/\\and\b/g, ',')).split(/\s*,\s*|\s+and\s+/)
+    .filter(name => name && /[a-z]/i.test(name))
+    .map((name, i) => ({ name, affiliation: '', corresponding: i === 0 }));
+
+interface Walk {
+  files: Record<string, string>;
+  paragraphs: SourceParagraph[];
+  figures: { key?: string; file: string; start: number; end: number }[];
+  bibItems: { key: string; text: string }[];
+  visited: Set<string>;
+  warnings: string[];
+  // Set after the abstract; text before the next heading goes under a "Main Text" heading
+  afterAbstract: boolean;
+}
+
+// \input{sections/intro} matches an uploaded "intro.tex"; uploads usually have no directory
+const resolveFile = (files: Record<string, string>, name: string) => {
+  const wanted = [name, `${name}.tex`].map(n => n.replace(/^\.\//, ''));
+  const names = Object.keys(files);
+  return names.find(f => wanted.includes(f)) ?? names.find(f => wanted.some(w => f.endsWith(`/${w}`) || w.endsWith(`/${f}`)));
+};
+
+// Prose paragraphs of src[from, to), split at blank lines
+const addParagraphs = (walk: Walk, file: string, src: string, from: number, to: number) => {
+  const blank = /\n[ \t]*\n/g;
+  blank.lastIndex = from;
+  let start = from;
+  const add = (a: number, b: number) => {
+    const block = src.slice(a, b);
+    const lead = block.length - block.trimStart().length;
+    const text = block.trim();
+    if (!text || !isProse(text)) return;
+    if (walk.afterAbstract) {
+      walk.paragraphs.push({ text: '# Main Text' });
+      walk.afterAbstract = false;
+    }
+    walk.paragraphs.push({ text, file, start: a + lead, end: a + lead + text.length });
+  };
+  let match;
+  while ((match = blank.exec(src)) && match.index < to) {
+    add(start, match.index);
+    start = match.index + match[0].length;
+  }
+  add(start, to);
+};
+
+const walkSource = (walk: Walk, file: string, from: number, to: number) => {
+  const src = walk.files[file];
+  let pos = from;
+  let textStart = from;
+  while (pos < to) {
+    const next = src.indexOf('\\', pos);
+    if (next < 0 || next >= to) break;
+    pos = next;
+    if (commentStart(src, pos) >= 0) {
+      pos = src.indexOf('\n', pos) < 0 ? to : src.indexOf('\n', pos);
+      continue;
+    }
+    SECTION.lastIndex = BEGIN.lastIndex = INCLUDE.lastIndex = pos;
+    const section = SECTION.exec(src);
+    const begin = !section && BEGIN.exec(src);
+    const include = !section && !begin && INCLUDE.exec(src);
+
+    if (section) {
+      const open = SECTION.lastIndex - 1;
+      const close = closingBrace(src, open);
+      if (close < 0) break;
+      addParagraphs(walk, file, src, textStart, pos);
+      const prefix = section[1] === 'section' ? '# ' : '## ';
+      walk.paragraphs.push({ text: prefix + src.slice(open + 1, close), file, start: open + 1, end: close, prefix });
+      walk.afterAbstract = false;
+      pos = textStart = close + 1;
+    } else if (begin) {
+      const env = begin[1];
+      const endTag = `\\end{${env}}`;
+      const end = src.indexOf(endTag, BEGIN.lastIndex);
+      const envEnd = end < 0 ? to : end;
+      addParagraphs(walk, file, src, textStart, pos);
+      if (env === 'abstract') {
+        walk.paragraphs.push({ text: '# Abstract' });
+        walk.afterAbstract = false;
+        addParagraphs(walk, file, src, BEGIN.lastIndex, envEnd);
+        walk.afterAbstract = true;
+      } else if (env.startsWith('figure')) {
+        const body = src.slice(BEGIN.lastIndex, envEnd);
+        const caption = commandArgument(body, 'caption');
+        const label = commandArgument(body, 'label');
+        if (caption) {
+          walk.figures.push({ key: label?.text.trim(), file, start: BEGIN.lastIndex + caption.start, end: BEGIN.lastIndex + caption.end });
+        }
+      } else if (env === 'thebibliography') {
+        const items = src.slice(BEGIN.lastIndex, envEnd).split(/\\bibitem/).slice(1);
+        for (const item of items) {
+          const key = item.match(/^\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/);
+          if (key) walk.bibItems.push({ key: key[1].trim(), text: latexToPlain(item.slice(key[0].length)) });
+        }
+      }
+      // Tables are left out of the text and untouched in the source
+      pos = textStart = end < 0 ? to : end + endTag.length;
+    } else if (include) {
+      // The regexes are shared with the recursive walk below
+      const includeEnd = INCLUDE.lastIndex;
+      addParagraphs(walk, file, src, textStart, pos);
+      const included = resolveFile(walk.files, include[1].trim());
+      if (!included) {
+        walk.warnings.push(`${include[1]} was not among the imported files.`);
+      } else if (!walk.visited.has(included)) {
+        walk.visited.add(included);
+        walkSource(walk, included, 0, walk.files[included].length);
+      }
+      pos = textStart = includeEnd;
+    } else {
+      pos++;
+    }
+  }
+  addParagraphs(walk, file, src, textStart, to);
+};
+
+export interface LatexImport extends ImportedManuscript {
+  warnings: string[];
+}
+
+export const importLatex = async (uploads: File[]): Promise<LatexImport> => {
+  const files: Record<string, string> = {};
+  for (const upload of uploads) files[upload.webkitRelativePath || upload.name] = await upload.text();
+  const texFiles = Object.keys(files).filter(name => name.endsWith('.tex'));
+  const mainFile = texFiles.find(name => /\\begin\{document\}/.test(stripComments(files[name]))) || texFiles[0];
+  if (!mainFile) throw new Error('No .tex file among the selected files.');
+
+  const main = files[mainFile];
+  const docStart = main.search(/\\begin\{document\}/);
+  const docEnd = main.search(/\\end\{document\}/);
+  const walk: Walk = { files, paragraphs: [], figures: [], bibItems: [], visited: new Set([mainFile]), warnings: [], afterAbstract: false };
+  walkSource(walk, mainFile, docStart < 0 ? 0 : docStart + '\\begin{document}'.length, docEnd < 0 ? main.length : docEnd);
+
+  // Figure legends, numbered in order of appearance
+  const figures: ManuscriptFigure[] = walk.figures.map((f, i) => ({
+    id: `fig-${i + 1}`,
+    label: `Figure ${i + 1}`,
+    caption: latexToPlain(walk.files[f.file].slice(f.start, f.end)),
+    ...(f.key && { key: f.key })
+  }));
+  if (walk.figures.length) {
+    walk.paragraphs.push({ text: '# Figure legends' });
+    walk.figures.forEach((f, i) => {
+      const prefix = `Figure ${i + 1}. `;
+      walk.paragraphs.push({ text: prefix + walk.files[f.file].slice(f.start, f.end).trim(), file: f.file, start: f.start, end: f.end, prefix });
+    });
+  }
+
+  // Cited entries in order of first citation; uncited \bibitem entries are listed too, as LaTeX would
+  const cited: string[] = [];
+  for (const p of walk.paragraphs) {
+    for (const match of p.text.matchAll(CITE)) {
+      for (const key of match[1].split(',').map(k => k.trim()).filter(Boolean)) {
+        if (!cited.includes(key)) cited.push(key);
+      }
+    }
+  }
+  const bib = new Map<string, BibEntry>();
+  for (const name of Object.keys(files).filter(n => n.endsWith('.bib'))) {
+    parseBib(files[name]).forEach((entry, key) => bib.set(key, entry));
+  }
+  const references = walk.bibItems.length
+    ? walk.bibItems.map(item => `[${item.key}] ${item.text}`)
+    : cited.map(key => {
+      const entry = bib.get(key);
+      if (!entry && bib.size) walk.warnings.push(`\\cite{${key}} has no entry in the .bib file.`);
+      return entry ? formatBibEntry(entry) : `[${key}] No bibliography entry found.`;
+    });
+  if (references.length) {
+    walk.paragraphs.push({ text: '# References' }, ...references.map(text => ({ text })));
+  }
+
+  const title = commandArgument(main, 'title');
+  const author = commandArgument(main, 'author');
+  return {
+    title: title ? latexToPlain(title.text) : '',
+    authors: author ? parseAuthors(author.text) : undefined,
+    text: walk.paragraphs.map(p => p.text).join('\n\n'),
+    figures,
+    source: { kind: 'latex', mainFile, files, paragraphs: walk.paragraphs },
+    warnings: walk.warnings
+  };
+};
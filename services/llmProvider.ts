@@ -0,0 +1,282 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider, withRecording } from "./mockProvider";
+import { withScheduler } from "./requestScheduler";
+import { withCache } from "./responseCache";
+import { withLedger } from "./usageLedger";
+
+// --- Provider-neutral request / response shapes ---
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// The service function a request originates from. Used to label fixtures and other per-call records.
+export type ModelTask =
+  | 'analyzeManuscriptText'
+  | 'generateCoverLetter'
+  | 'generateOrEditFigure'
+  | 'getJournalGuidelines'
+  | 'createChatSession'
+  | 'createRefinementChat'
+  | 'suggestTargetJournals'
+  | 'evaluateJournalFit'
+  | 'summarizeManuscriptChunk';
+
+// Minimal JSON-Schema subset understood by every adapter (Gemini converts it to its own Schema format).
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface InlineImage {
+  data: string; // base64, no data: prefix
+  mimeType: string;
+}
+
+// Sampling and output budget; unset fields fall back to the provider's defaults
+export interface GenerationParams {
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Tokens a thinking model may spend before answering (Gemini only; 0 turns thinking off)
+  thinkingBudget?: number;
+}
+
+export interface TextRequest extends GenerationParams {
+  task?: ModelTask;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  signal?: AbortSignal;
+  // Skip the response cache lookup (the fresh answer still replaces the cached one)
+  forceRefresh?: boolean;
+}
+
+// Per-call options passed from the UI through the service functions
+export type CallOptions = Pick<TextRequest, 'signal' | 'forceRefresh'>;
+
+export interface JsonRequest extends TextRequest {
+  schema: JsonSchema;
+}
+
+// Token counts as reported by the provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TextResponse {
+  text: string;
+  usage?: TokenUsage;
+  // Set when the response was served from the cache
+  cachedAt?: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatRequest extends GenerationParams {
+  task?: ModelTask;
+  model: string;
+  systemInstruction?: string;
+  history: ChatTurn[];
+  message: string;
+  signal?: AbortSignal;
+}
+
+export interface StreamChunk {
+  text: string;
+  // Streams report usage once, on a final chunk with empty text
+  usage?: TokenUsage;
+}
+
+// Only the Gemini adapter applies generation params to image models
+export interface ImageRequest extends GenerationParams {
+  task?: ModelTask;
+  model: string;
+  prompt: string;
+  inputImage?: InlineImage;
+  // Only sent when the model accepts structured image config (e.g. Gemini Pro Image)
+  aspectRatio?: string;
+  imageSize?: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageResponse {
+  text: string;
+  image?: InlineImage;
+  usage?: TokenUsage;
+}
+
+export interface ProviderModels {
+  text: string;
+  // Fast model used for drafts and ALL edits of an input image
+  fastImage: string;
+  // High-fidelity model used for pure text-to-image generation at 2K
+  proImage: string;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly models: ProviderModels;
+  generateText(request: TextRequest): Promise<TextResponse>;
+  generateJson(request: JsonRequest): Promise<TextResponse>;
+  // Same request as generateText, answered incrementally
+  streamText(request: TextRequest): AsyncGenerator<StreamChunk>;
+  streamChat(request: ChatRequest): AsyncGenerator<StreamChunk>;
+  generateImage(request: ImageRequest): Promise<ImageResponse>;
+}
+
+// --- Runtime selection ---
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  models: ProviderModels;
+}
+
+export interface ProviderSettings {
+  activeProvider: ProviderId;
+  providers: Record<ProviderId, ProviderConfig>;
+  // Capture every live request/response pair as a replayable fixture
+  recordFixtures: boolean;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible / Ollama (self-hosted)',
+  'mock': 'Offline mock (replay recorded fixtures)'
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  activeProvider: 'gemini',
+  providers: {
+    'gemini': {
+      baseUrl: '',
+      apiKey: '', // Empty means use the key injected by AI Studio / .env.local
+      models: {
+        text: 'gemini-3-pro-preview',
+        fastImage: 'gemini-2.5-flash-image',
+        proImage: 'gemini-3-pro-image-preview'
+      }
+    },
+    'openai-compatible': {
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: '',
+      models: {
+        text: 'llama3.1',
+        fastImage: '',
+        proImage: ''
+      }
+    },
+    'mock': {
+      baseUrl: '',
+      apiKey: '',
+      // Model IDs are not part of fixture keys, so replay works regardless of what was recorded
+      models: {
+        text: 'mock-text',
+        fastImage: 'mock-image',
+        proImage: 'mock-image-pro'
+      }
+    }
+  },
+  recordFixtures: false
+};
+
+const SETTINGS_KEY = 'manuscriptPilot.providerSettings';
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<ProviderSettings>;
+    // Merge so that newly added fields always have defaults
+    const providers = { ...DEFAULT_PROVIDER_SETTINGS.providers };
+    for (const id of Object.keys(providers) as ProviderId[]) {
+      const s = stored.providers?.[id];
+      if (s) {
+        providers[id] = { ...providers[id], ...s, models: { ...providers[id].models, ...s.models } };
+      }
+    }
+    return {
+      activeProvider: stored.activeProvider || DEFAULT_PROVIDER_SETTINGS.activeProvider,
+      providers,
+      recordFixtures: !!stored.recordFixtures
+    };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getActiveModels = (): ProviderModels => {
+  const settings = getProviderSettings();
+  return settings.providers[settings.activeProvider].models;
+};
+
+// Build a fresh provider from the latest settings on every call, mirroring the old getAiClient()
+// so that a key or endpoint change takes effect without reloading the app.
+// Live providers are wrapped (innermost first): recording -> request scheduler -> usage ledger -> response cache,
+// so cache hits never wait in the queue and are never billed.
+export const getProvider = (): LLMProvider => {
+  const settings = getProviderSettings();
+  const config = settings.providers[settings.activeProvider];
+  let provider: LLMProvider;
+  switch (settings.activeProvider) {
+    case 'mock':
+      return createMockProvider(config);
+    case 'openai-compatible':
+      provider = createOpenAiCompatibleProvider(config);
+      break;
+    case 'gemini':
+    default:
+      provider = createGeminiProvider(config);
+  }
+  return withCache(withLedger(withScheduler(settings.recordFixtures ? withRecording(provider) : provider)), config.baseUrl);
+};
+
+// --- Chat sessions ---
+
+export interface ChatSession {
+  readonly history: ChatTurn[];
+  sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+/**
+ * Providers are stateless; the session keeps the turn history locally and replays it on each message.
+ * A turn is only committed once the model has finished answering.
+ */
+export const createChat = (options: GenerationParams & { task?: ModelTask; model?: string; systemInstruction?: string; history?: ChatTurn[] }): ChatSession => {
+  const { task, model, systemInstruction, history: initialHistory, ...generation } = options;
+  const history: ChatTurn[] = [...(initialHistory || [])];
+
+  return {
+    history,
+    async *sendMessageStream(message: string, signal?: AbortSignal) {
+      const provider = getProvider();
+      let reply = '';
+      for await (const chunk of provider.streamChat({
+        task,
+        model: model || provider.models.text,
+        systemInstruction,
+        ...generation,
+        history: [...history],
+        message,
+        signal
+      })) {
+        if (chunk.text) {
+          reply += chunk.text;
+          yield chunk.text;
+        }
+      }
+      history.push({ role: 'user', text: message }, { role: 'model', text: reply });
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { LogicCheckResult, LogicIssue } from "../types";
+
+// Logic Check answers with structured issues, each quoting the span of the input it objects to. The quotes
+// are found again in the (possibly edited) input to highlight them; models sometimes change quote marks,
+// whitespace or case, or elide the middle of a long span with "...", so matching tolerates that.
+
+export interface IssueSpan {
+  issue: number; // Index into the issues
+  start: number;
+  end: number;
+}
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Pattern for one elided fragment of a quote, with loose quote marks, dashes and whitespace
+const fragmentPattern = (fragment: string) =>
+  fragment.trim().split(/\s+/).map(word => escape(word)
+    .replace(/["“”]/g, '["“”]')
+    .replace(/['‘’]/g, "['‘’]")
+    .replace(/[-–—]/g, '[-–—]')
+  ).join('\\s+');
+
+const findQuote = (text: string, quote: string): [number, number] | null => {
+  const trimmed = quote.trim().replace(/^["“]|["”]$/g, '').trim();
+  if (!trimmed) return null;
+  const exact = text.indexOf(trimmed);
+  if (exact >= 0) return [exact, exact + trimmed.length];
+  const fragments = trimmed.split(/\s*(?:\.\.\.|…)\s*/).filter(Boolean);
+  if (!fragments.length) return null;
+  const match = new RegExp(fragments.map(fragmentPattern).join('[\\s\\S]{0,600}?'), 'i').exec(text);
+  return match ? [match.index, match.index + match[0].length] : null;
+};
+
+// Spans of the issues whose quote is still in `text`, in text order
+export const locateIssues = (text: string, issues: LogicIssue[] = []): IssueSpan[] =>
+  issues
+    .map((issue, i) => {
+      const found = findQuote(text, issue.quote);
+      return found ? { issue: i, start: found[0], end: found[1] } : null;
+    })
+    .filter((span): span is IssueSpan => span !== null)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+// Plain-text rendering, used as the history card notes and as the context of the refinement chat
+export const formatLogicCheck = ({ summary, issues }: LogicCheckResult) =>
+  [
+    summary.trim(),
+    ...issues.map((issue, i) =>
+      `${i + 1}. [${issue.severity}, ${issue.category}] "${issue.quote}"\n   ${issue.problem}\n   Suggestion: ${issue.suggestion}`)
+  ].filter(Boolean).join('\n\n');
@@ -0,0 +1,228 @@
+import { LatexSource, Manuscript, ManuscriptAuthor, ManuscriptFigure, ManuscriptReference, ManuscriptSection } from "../types";
+
+// App-level store for the paper being worked on, so title, abstract, authors and text are entered
+// once and read by every tab. The full text is kept as sections split on standard headings;
+// figures and references are picked out of the figure legends and reference list as the text changes.
+
+// Standard section headings (IMRaD and common back matter), optionally numbered
+const SECTION_HEADING = /^(?:[0-9IVX]+\.?\s+)?(abstract|summary|introduction|background|results(?: and discussion)?|discussion|conclusions?|(?:materials and |experimental )?methods(?: and materials)?|experimental procedures|star\s*methods|references|bibliography|acknowledge?ments|figure legends|supplementary (?:information|materials?|figures)|author contributions|data (?:and code )?availability|competing interests|declaration of interests)\s*:?$/i;
+
+const titleCase = (heading: string) => heading.charAt(0).toUpperCase() + heading.slice(1).toLowerCase();
+
+// Imported documents mark their real top-level headings as "# Heading"
+const MARKED_HEADING = /^#\s+(.+?)\s*$/;
+
+// Section title for a heading line, or null when the line is body text
+export const matchHeading = (line: string): string | null => {
+  const trimmed = line.trim();
+  const marked = trimmed.match(MARKED_HEADING);
+  const heading = marked ? marked[1] : trimmed;
+  const match = heading.length < 60 ? heading.match(SECTION_HEADING) : null;
+  return match ? titleCase(match[1]) : marked ? heading : null;
+};
+
+let idCounter = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+/**
+ * Splits full text into sections at heading lines. Each section's text starts with its heading line
+ * (text before the first heading becomes "Main Text"), so joining the sections gives back the input.
+ * Sections keep the ids of `previous` sections with the same title, in order.
+ */
+export const splitManuscriptText = (text: string, previous: ManuscriptSection[] = []): ManuscriptSection[] => {
+  if (!text) return [];
+  const parts: { title: string; lines: string[] }[] = [];
+  for (const line of text.split('\n')) {
+    const title = matchHeading(line);
+    if (title || parts.length === 0) parts.push({ title: title || 'Main Text', lines: [] });
+    parts[parts.length - 1].lines.push(line);
+  }
+  const unused = [...previous];
+  return parts.map(({ title, lines }) => {
+    const reused = unused.findIndex(s => s.title === title);
+    const id = reused >= 0 ? unused.splice(reused, 1)[0].id : newId('sec');
+    return { id, title, text: lines.join('\n') };
+  });
+};
+
+export const joinSections = (sections: ManuscriptSection[]) => sections.map(s => s.text).join('\n');
+
+// Section text without its heading line
+export const sectionBody = (section: ManuscriptSection) => {
+  const [first, ...rest] = section.text.split('\n');
+  return (matchHeading(first) ? rest.join('\n') : section.text).trim();
+};
+
+const findSection = (sections: ManuscriptSection[], pattern: RegExp) => sections.find(s => pattern.test(s.title));
+
+// "Figure 1. Caption...", "Fig. 2: ...", continuation lines belong to the previous legend
+const LEGEND = /^fig(?:ure)?\.?\s*(\d+)\s*[.:|–-]?\s*(.*)$/i;
+// Outside a legends section only paragraphs like "Figure 1. ..." count, not "Figure 1 shows ..."
+const INLINE_LEGEND = /^fig(?:ure)?\.?\s*(\d+)\s*[.:|]\s+(.*)$/i;
+
+const extractFigures = (sections: ManuscriptSection[]): ManuscriptFigure[] => {
+  const legends = findSection(sections, /^Figure legends$/);
+  const figures: ManuscriptFigure[] = [];
+  const lines = legends ? sectionBody(legends).split('\n') : sections.flatMap(s => sectionBody(s).split('\n'));
+  for (const line of lines) {
+    const match = line.trim().match(legends ? LEGEND : INLINE_LEGEND);
+    if (match) {
+      if (!figures.some(f => f.id === `fig-${match[1]}`)) {
+        figures.push({ id: `fig-${match[1]}`, label: `Figure ${match[1]}`, caption: match[2] });
+      }
+    } else if (legends && figures.length && line.trim()) {
+      const last = figures[figures.length - 1];
+      last.caption = last.caption ? `${last.caption} ${line.trim()}` : line.trim();
+    }
+  }
+  return figures;
+};
+
+// One reference per non-empty line of the reference list; "[key] ..." lines carry their citation key
+const extractReferences = (sections: ManuscriptSection[]): ManuscriptReference[] => {
+  const list = findSection(sections, /^(References|Bibliography)$/);
+  if (!list) return [];
+  return sectionBody(list).split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((text, i) => {
+      const keyed = text.match(/^\[([^\]\s]+)\]\s+/);
+      return { id: `ref-${i + 1}`, text, ...(keyed && { key: keyed[1] }) };
+    });
+};
+
+// Legends carry no LaTeX label, so keys are kept from the figures they were extracted for before
+const withFigureKeys = (figures: ManuscriptFigure[], previous: ManuscriptFigure[]) =>
+  figures.map(f => {
+    const key = previous.find(p => p.id === f.id)?.key;
+    return key ? { ...f, key } : f;
+  });
+
+export const abstractSection = (sections: ManuscriptSection[]) => {
+  const section = findSection(sections, /^Abstract$/);
+  return section ? sectionBody(section) : '';
+};
+
+// --- Store ---
+
+export const EMPTY_MANUSCRIPT: Manuscript = {
+  title: '',
+  abstract: '',
+  authors: [],
+  sections: [],
+  figures: [],
+  references: []
+};
+
+let manuscript = EMPTY_MANUSCRIPT;
+// Joined sections, cached so text areas can bind to it without re-joining on every render
+let fullText = '';
+const listeners = new Set<() => void>();
+
+const setManuscript = (next: Manuscript) => {
+  manuscript = next;
+  fullText = joinSections(next.sections);
+  listeners.forEach(listener => listener());
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribeManuscript = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getManuscript = () => manuscript;
+
+export const getManuscriptText = () => fullText;
+
+// Swaps in another manuscript, e.g. when a project is opened
+export const replaceManuscript = (next: Manuscript) => setManuscript({ ...EMPTY_MANUSCRIPT, ...next });
+
+export const updateManuscript = (patch: Partial<Pick<Manuscript, 'title' | 'abstract' | 'authors'>>) => {
+  setManuscript({ ...manuscript, ...patch });
+};
+
+/**
+ * Replaces the full text. Figures and references are re-extracted, and the abstract follows the
+ * text's Abstract section unless it was typed in separately.
+ */
+export const setManuscriptText = (text: string) => {
+  const sections = splitManuscriptText(text, manuscript.sections);
+  const abstractFollowsText = !manuscript.abstract || manuscript.abstract === abstractSection(manuscript.sections);
+  setManuscript({
+    ...manuscript,
+    sections,
+    abstract: abstractFollowsText ? abstractSection(sections) : manuscript.abstract,
+    figures: withFigureKeys(extractFigures(sections), manuscript.figures),
+    references: extractReferences(sections)
+  });
+};
+
+export interface ImportedManuscript {
+  title: string;
+  text: string;
+  // Used when the manuscript has no authors yet
+  authors?: ManuscriptAuthor[];
+  // Figures with their LaTeX labels
+  figures?: ManuscriptFigure[];
+  source?: LatexSource;
+}
+
+// Replaces title, text and everything derived from it with an imported document
+export const loadManuscript = ({ title, text, authors, figures, source }: ImportedManuscript) => {
+  const sections = splitManuscriptText(text);
+  setManuscript({
+    ...manuscript,
+    title: title || manuscript.title,
+    authors: manuscript.authors.length ? manuscript.authors : authors || [],
+    sections,
+    abstract: abstractSection(sections) || manuscript.abstract,
+    figures: withFigureKeys(extractFigures(sections), figures || []),
+    references: extractReferences(sections),
+    source
+  });
+};
+
+// Replaces a section's text below its heading, keeping the blank lines around it
+export const setSectionBody = (id: string, body: string) => {
+  const updated = manuscript.sections.map(section => {
+    if (section.id !== id) return section;
+    const [first, ...rest] = section.text.split('\n');
+    const hasHeading = !!matchHeading(first);
+    const old = hasHeading ? rest.join('\n') : section.text;
+    const [, before, , after] = old.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return { ...section, text: `${hasHeading ? first + '\n' : ''}${before}${body.trim()}${after}` };
+  });
+  setManuscriptText(joinSections(updated));
+};
+
+/**
+ * Puts a section from another version back into the text: it replaces the section with the same title,
+ * or, when that section was removed since, goes in after the nearest of `precedingTitles` still present.
+ */
+export const restoreSection = (restored: ManuscriptSection, precedingTitles: string[]) => {
+  const existing = manuscript.sections.find(s => s.title === restored.title);
+  if (existing) {
+    setSectionBody(existing.id, sectionBody(restored));
+    return;
+  }
+  const sections = [...manuscript.sections];
+  const anchor = [...precedingTitles].reverse().map(title => sections.findIndex(s => s.title === title)).find(i => i >= 0) ?? -1;
+  // Keep a blank line on both sides of the inserted section
+  if (anchor >= 0 && !/\n\s*$/.test(sections[anchor].text)) sections[anchor] = { ...sections[anchor], text: `${sections[anchor].text}\n` };
+  const text = anchor < sections.length - 1 ? `${restored.text.trimEnd()}\n` : restored.text.trimEnd();
+  sections.splice(anchor + 1, 0, { ...restored, text });
+  setManuscriptText(joinSections(sections));
+};
+
+// The corresponding author, or the first listed one
+export const correspondingAuthor = (m: Manuscript): ManuscriptAuthor | undefined =>
+  m.authors.find(a => a.corresponding) || m.authors[0];
+
+export const updateCorrespondingAuthor = (patch: Partial<ManuscriptAuthor>) => {
+  const current = correspondingAuthor(manuscript);
+  const updated = { name: '', affiliation: '', corresponding: true, ...current, ...patch };
+  updateManuscript({
+    authors: current ? manuscript.authors.map(a => a === current ? updated : a) : [updated]
+  });
+};
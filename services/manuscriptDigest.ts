@@ -0,0 +1,160 @@
+import { TextCoverage } from "../types";
+import { getProvider, CallOptions } from "./llmProvider";
+import { classifyError } from "./serviceErrors";
+import { parseWithSchema } from "./schema";
+import { ChunkSummary, chunkSummarySchema } from "./responseSchemas";
+import { renderPrompt } from "./promptTemplates";
+import { taskGeneration } from "./taskSettings";
+import { matchHeading } from "./manuscript";
+
+// Map-reduce for manuscripts longer than a prompt's text budget: split by section, summarize each
+// chunk into structured findings, and hand the merged digest to the final prompt instead of
+// truncating the text.
+
+export interface DigestSection {
+  title: string;
+  text: string;
+}
+
+export interface PreparedText {
+  text: string;
+  coverage: TextCoverage;
+}
+
+export interface DigestOptions extends CallOptions {
+  // Called as section summaries complete during the map step
+  onDigestProgress?: (done: number, total: number) => void;
+}
+
+// Sections larger than this are summarized in several parts
+const CHUNK_CHARS = 15000;
+
+// Back matter that says nothing about the science
+export const BACK_MATTER = /^(references|bibliography|acknowledge?ments|author contributions|competing interests|declaration of interests|data (and code )?availability)/i;
+
+/**
+ * Splits plain manuscript text on standard section headings (IMRaD and common back matter).
+ * Text before the first heading becomes "Main Text"; without any headings the whole text is one section.
+ */
+export const splitIntoSections = (text: string): DigestSection[] => {
+  const sections: DigestSection[] = [];
+  let current: DigestSection = { title: 'Main Text', text: '' };
+  for (const line of text.split('\n')) {
+    const title = matchHeading(line);
+    if (title) {
+      if (current.text.trim()) sections.push(current);
+      current = { title, text: '' };
+    } else {
+      current.text += line + '\n';
+    }
+  }
+  if (current.text.trim()) sections.push(current);
+  return sections.map(s => ({ ...s, text: s.text.trim() }));
+};
+
+// Split at paragraph boundaries so no chunk exceeds CHUNK_CHARS (a single huge paragraph is cut hard)
+const chunkSection = (section: DigestSection): DigestSection[] => {
+  if (section.text.length <= CHUNK_CHARS) return [section];
+  const parts: string[] = [];
+  let part = '';
+  for (const paragraph of section.text.split(/\n\s*\n/)) {
+    if (part && part.length + paragraph.length > CHUNK_CHARS) {
+      parts.push(part);
+      part = '';
+    }
+    part += (part ? '\n\n' : '') + paragraph;
+    while (part.length > CHUNK_CHARS) {
+      parts.push(part.slice(0, CHUNK_CHARS));
+      part = part.slice(CHUNK_CHARS);
+    }
+  }
+  if (part) parts.push(part);
+  return parts.map((text, i) => ({ title: `${section.title} (part ${i + 1}/${parts.length})`, text }));
+};
+
+const summarizeChunk = async (chunk: DigestSection, options: CallOptions): Promise<ChunkSummary> => {
+  const provider = getProvider();
+  const response = await provider.generateJson({
+    task: 'summarizeManuscriptChunk',
+    ...taskGeneration('sectionSummary', provider),
+    prompt: renderPrompt('manuscript.sectionSummary', { section: chunk.title, text: chunk.text }).text,
+    schema: chunkSummarySchema.json,
+    ...options
+  });
+  return parseWithSchema(response.text, chunkSummarySchema);
+};
+
+const formatSummary = (title: string, summary: ChunkSummary) => {
+  const list = (label: string, items: string[] = []) => items.length ? `${label}:\n${items.map(i => `- ${i}`).join('\n')}\n` : '';
+  return `[${title}]\n${list('Findings', summary.findings)}${list('Methods', summary.methods)}${list('Claims', summary.claims)}${list('Limitations', summary.limitations)}`;
+};
+
+/**
+ * Returns the manuscript text to put in a prompt: verbatim when it fits `limit`, otherwise a digest of
+ * per-section summaries. Throws on cancellation, budget stops, or when no section could be summarized;
+ * other per-chunk failures are reported in the coverage and skipped.
+ */
+export const prepareManuscriptText = async (
+  fullText: string,
+  limit: number,
+  { onDigestProgress, ...options }: DigestOptions = {}
+): Promise<PreparedText> => {
+  if (fullText.length <= limit) {
+    return {
+      text: fullText,
+      coverage: {
+        mode: 'full',
+        totalChars: fullText.length,
+        consideredChars: fullText.length,
+        sections: fullText ? [{ title: 'Full text', chars: fullText.length, status: 'included' }] : []
+      }
+    };
+  }
+
+  const sections = splitIntoSections(fullText);
+  const chunks = sections.filter(s => !BACK_MATTER.test(s.title)).flatMap(chunkSection);
+  let done = 0;
+  onDigestProgress?.(0, chunks.length);
+
+  // A cancellation or budget stop on one chunk aborts the others, which would only fail the same way
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (options.signal?.aborted) abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  // All chunks are submitted at once; the request scheduler bounds the actual concurrency
+  const summaries = await Promise.all(chunks.map(async chunk => {
+    try {
+      return await summarizeChunk(chunk, { ...options, signal: controller.signal });
+    } catch (error) {
+      const kind = classifyError(error).kind;
+      if (kind === 'CANCELLED' || kind === 'BUDGET_EXCEEDED') {
+        abort();
+        throw error;
+      }
+      console.error(`Error summarizing ${chunk.title}:`, error);
+      return null;
+    } finally {
+      onDigestProgress?.(++done, chunks.length);
+    }
+  })).finally(() => options.signal?.removeEventListener('abort', abort));
+
+  if (chunks.length > 0 && summaries.every(s => s === null)) {
+    throw new Error("None of the manuscript sections could be summarized.");
+  }
+
+  const coverageSections: TextCoverage['sections'] = [
+    ...chunks.map((chunk, i) => ({ title: chunk.title, chars: chunk.text.length, status: summaries[i] ? 'summarized' as const : 'failed' as const })),
+    ...sections.filter(s => BACK_MATTER.test(s.title)).map(s => ({ title: s.title, chars: s.text.length, status: 'skipped' as const }))
+  ];
+
+  return {
+    text: chunks.map((chunk, i) => summaries[i] ? formatSummary(chunk.title, summaries[i]!) : '').filter(Boolean).join('\n'),
+    coverage: {
+      mode: 'digest',
+      totalChars: fullText.length,
+      consideredChars: coverageSections.filter(s => s.status === 'summarized').reduce((total, s) => total + s.chars, 0),
+      sections: coverageSections
+    }
+  };
+};
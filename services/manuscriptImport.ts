@@ -0,0 +1,26 @@
+import { ImportedManuscript } from "./manuscript";
+import { importDocx } from "./docxImport";
+import { importLatex } from "./latexImport";
+import { importPdf } from "./pdfImport";
+
+// Turns manuscript files into text for the shared manuscript, picking the importer by file type
+
+export interface ManuscriptImportResult extends ImportedManuscript {
+  warnings: string[];
+}
+
+// For the file input's `accept`
+export const MANUSCRIPT_FILE_TYPES = '.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.tex,.bib,.pdf,application/pdf';
+
+// One .docx or .pdf, or the .tex files (and .bib) of a LaTeX project
+export const importManuscriptFiles = async (files: File[]): Promise<ManuscriptImportResult> => {
+  const names = files.map(f => f.name.toLowerCase());
+  if (names.some(name => name.endsWith('.tex'))) return importLatex(files.filter(f => /\.(tex|bib)$/i.test(f.name)));
+  const docx = files.find(f => f.name.toLowerCase().endsWith('.docx'));
+  if (docx) return { ...await importDocx(docx), warnings: [] };
+  const pdf = files.find(f => f.name.toLowerCase().endsWith('.pdf'));
+  if (pdf) return importPdf(pdf);
+  if (names.some(name => name.endsWith('.doc'))) throw new Error('Old .doc files are not supported; save the manuscript as .docx in Word first.');
+  if (names.some(name => name.endsWith('.bib'))) throw new Error('Select the .tex files together with the .bib file.');
+  throw new Error('Unsupported file type. Import a .docx or .pdf file, a LaTeX project (.tex and .bib), or paste the text.');
+};
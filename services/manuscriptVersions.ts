@@ -0,0 +1,78 @@
+import { Manuscript, ManuscriptSection } from "../types";
+import { abstractSection, sectionBody } from "./manuscript";
+import { DiffPart, diffWords, isUnchanged } from "./textDiff";
+
+// Section-by-section comparison of two manuscript versions. Sections are paired by title, since section
+// ids are only stable within one editing session; the title and a separately entered abstract are
+// compared as sections of their own.
+
+export type SectionChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface SectionComparison {
+  key: string;
+  title: string;
+  change: SectionChange;
+  parts: DiffPart[];
+  // The older version's section, for restoring it
+  before?: ManuscriptSection;
+  // Titles of the sections before it in the older version, to place a restored section that was removed since
+  precedingTitles: string[];
+  // "title" and "abstract" rows are manuscript fields rather than sections of the text
+  field?: 'title' | 'abstract';
+}
+
+const changeOf = (parts: DiffPart[], hasBefore: boolean, hasAfter: boolean): SectionChange =>
+  isUnchanged(parts) ? 'unchanged' : !hasBefore ? 'added' : !hasAfter ? 'removed' : 'changed';
+
+const fieldComparison = (field: 'title' | 'abstract', before: string, after: string): SectionComparison => {
+  const parts = diffWords(before, after);
+  return {
+    key: field,
+    title: field === 'title' ? 'Title' : 'Abstract (field)',
+    change: changeOf(parts, !!before, !!after),
+    parts,
+    precedingTitles: [],
+    field
+  };
+};
+
+// Abstract typed into its own field rather than taken from an Abstract section
+const separateAbstract = (m: Manuscript) => (abstractSection(m.sections) ? '' : m.abstract);
+
+export const compareManuscripts = (older: Manuscript, newer: Manuscript): SectionComparison[] => {
+  const rows: SectionComparison[] = [fieldComparison('title', older.title, newer.title)];
+  const olderAbstract = separateAbstract(older);
+  const newerAbstract = separateAbstract(newer);
+  if (olderAbstract || newerAbstract) rows.push(fieldComparison('abstract', olderAbstract, newerAbstract));
+
+  const unmatched = [...newer.sections];
+  const take = (title: string) => {
+    const i = unmatched.findIndex(s => s.title === title);
+    return i >= 0 ? unmatched.splice(i, 1)[0] : undefined;
+  };
+  // In the older version's order (a moved section stays where it was), with each added section slotted in
+  // before the next matched section that follows it in the newer version
+  const paired: { before?: ManuscriptSection; after?: ManuscriptSection; precedingTitles: string[] }[] = [];
+  older.sections.forEach((before, i) => {
+    paired.push({ before, after: take(before.title), precedingTitles: older.sections.slice(0, i).map(s => s.title) });
+  });
+  for (const after of unmatched) {
+    const position = newer.sections.indexOf(after);
+    const next = newer.sections.slice(position + 1).find(s => paired.some(p => p.after === s));
+    const at = next ? paired.findIndex(p => p.after === next) : paired.length;
+    paired.splice(at, 0, { after, precedingTitles: [] });
+  }
+
+  for (const { before, after, precedingTitles } of paired) {
+    const parts = diffWords(before ? sectionBody(before) : '', after ? sectionBody(after) : '');
+    rows.push({
+      key: (before || after)!.id + (before ? '' : '-new'),
+      title: (before || after)!.title,
+      change: changeOf(parts, !!before, !!after),
+      parts,
+      before,
+      precedingTitles
+    });
+  }
+  return rows;
+};
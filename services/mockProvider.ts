@@ -0,0 +1,140 @@
+import { LLMProvider, ProviderConfig, ModelTask, TextResponse, StreamChunk, ImageResponse } from "./llmProvider";
+import { idbGet, idbGetAll, idbPut, idbClear, idbCount } from "./idb";
+import { hashRequest } from "./requestHash";
+
+// Record/replay: a live provider wrapped with withRecording() stores every request/response pair,
+// and the mock provider replays them by request key without touching the network.
+
+type FixtureKind = 'text' | 'json' | 'stream' | 'chat' | 'image';
+
+export interface Fixture {
+  key: string;
+  kind: FixtureKind;
+  task?: ModelTask;
+  request: unknown;
+  // Stream and chat fixtures store the chunks so replay reproduces incremental rendering
+  response: TextResponse | { chunks: StreamChunk[] } | ImageResponse;
+  recordedAt: string;
+}
+
+export interface FixtureFile {
+  format: 'manuscript-pilot-fixtures';
+  version: 1;
+  fixtures: Fixture[];
+}
+
+type KeyedRequest = { model: string; task?: ModelTask; signal?: AbortSignal; forceRefresh?: boolean; maxOutputTokens?: number; thinkingBudget?: number; temperature?: number };
+
+// Model, task, call options, output budgets and temperature are left out of the key: the same prompt
+// replays whichever model (and per-task settings) recorded it
+const fixtureKey = (kind: FixtureKind, request: KeyedRequest) => {
+  const { model, task, signal, forceRefresh, maxOutputTokens, thinkingBudget, temperature, ...rest } = request;
+  return `${kind}:${hashRequest(rest)}`;
+};
+
+const saveFixture = (kind: FixtureKind, request: KeyedRequest, response: Fixture['response']) => {
+  const { signal, forceRefresh, ...stored } = request;
+  return idbPut<Fixture>('fixtures', fixtureKey(kind, request), {
+    key: fixtureKey(kind, request),
+    kind,
+    task: request.task,
+    request: stored,
+    response,
+    recordedAt: new Date().toISOString()
+  }).catch(error => console.error("Error saving fixture:", error));
+};
+
+const loadFixture = async <T extends Fixture['response']>(kind: FixtureKind, request: KeyedRequest): Promise<T> => {
+  request.signal?.throwIfAborted();
+  const fixture = await idbGet<Fixture>('fixtures', fixtureKey(kind, request));
+  if (!fixture) {
+    throw new Error(`No recorded fixture for this ${request.task || kind} request. Record it against a live provider first.`);
+  }
+  return fixture.response as T;
+};
+
+async function* replayChunks(kind: FixtureKind, request: KeyedRequest): AsyncGenerator<StreamChunk> {
+  const { chunks } = await loadFixture<{ chunks: StreamChunk[] }>(kind, request);
+  for (const chunk of chunks) {
+    request.signal?.throwIfAborted();
+    yield chunk;
+  }
+}
+
+export const withRecording = (provider: LLMProvider): LLMProvider => ({
+  ...provider,
+
+  async generateText(request) {
+    const response = await provider.generateText(request);
+    await saveFixture('text', request, response);
+    return response;
+  },
+
+  async generateJson(request) {
+    const response = await provider.generateJson(request);
+    await saveFixture('json', request, response);
+    return response;
+  },
+
+  async *streamText(request) {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamText(request)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    // Only complete streams are recorded
+    await saveFixture('stream', request, { chunks });
+  },
+
+  async *streamChat(request) {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamChat(request)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await saveFixture('chat', request, { chunks });
+  },
+
+  async generateImage(request) {
+    const response = await provider.generateImage(request);
+    await saveFixture('image', request, response);
+    return response;
+  }
+});
+
+export const createMockProvider = (config: ProviderConfig): LLMProvider => ({
+  id: 'mock',
+  models: config.models,
+
+  generateText: (request) => loadFixture<TextResponse>('text', request),
+
+  generateJson: (request) => loadFixture<TextResponse>('json', request),
+
+  streamText: (request) => replayChunks('stream', request),
+
+  streamChat: (request) => replayChunks('chat', request),
+
+  generateImage: (request) => loadFixture<ImageResponse>('image', request)
+});
+
+// --- Fixture file import / export ---
+
+export const countFixtures = () => idbCount('fixtures');
+
+export const clearFixtures = () => idbClear('fixtures');
+
+export const exportFixtures = async (): Promise<FixtureFile> => ({
+  format: 'manuscript-pilot-fixtures',
+  version: 1,
+  fixtures: await idbGetAll<Fixture>('fixtures')
+});
+
+export const importFixtures = async (file: FixtureFile): Promise<number> => {
+  if (file?.format !== 'manuscript-pilot-fixtures' || !Array.isArray(file.fixtures)) {
+    throw new Error("Not a Manuscript Pilot fixture file.");
+  }
+  for (const fixture of file.fixtures) {
+    await idbPut('fixtures', fixture.key, fixture);
+  }
+  return file.fixtures.length;
+};
@@ -0,0 +1,192 @@
+import { LLMProvider, ProviderConfig, TextRequest, InlineImage, TokenUsage, StreamChunk } from "./llmProvider";
+import { ProviderError, errorKindForStatus } from "./serviceErrors";
+
+// Works against any server speaking the OpenAI REST dialect: Ollama, vLLM, LM Studio, LocalAI, OpenAI itself.
+
+// Image endpoints only accept fixed sizes, so map the app's aspect ratios onto the closest common ones
+const IMAGE_SIZES: Record<string, string> = {
+  "1:1": "1024x1024",
+  "4:3": "1536x1024",
+  "16:9": "1536x1024"
+};
+
+const toMessages = (request: Pick<TextRequest, 'systemInstruction'>, turns: { role: 'user' | 'assistant'; content: string }[]) => [
+  ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+  ...turns
+];
+
+// Chat endpoints use prompt/completion naming, image endpoints input/output
+interface UsagePayload {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+const toUsage = (usage: UsagePayload | null | undefined): TokenUsage | undefined => usage ? {
+  inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+  outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0
+} : undefined;
+
+interface StreamEvent {
+  usage?: UsagePayload | null;
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+// One "data: {json}" line: its text delta and usage, or null for blank, non-data and "[DONE]" lines
+const parseEvent = (line: string): { text: string; usage?: TokenUsage } | null => {
+  const payload = line.replace(/^data:\s*/, '').trim();
+  if (!payload || payload === '[DONE]' || !line.startsWith('data:')) return null;
+  let data: StreamEvent;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    throw new ProviderError('MALFORMED_JSON', `Unreadable stream event: ${payload.slice(0, 200)}`);
+  }
+  const choice = data.choices?.[0];
+  if (choice?.finish_reason === 'content_filter') {
+    throw new ProviderError('SAFETY_BLOCKED', 'Response withheld by the content filter.');
+  }
+  // With include_usage the totals arrive in a final event without choices
+  return { text: choice?.delta?.content || '', usage: toUsage(data.usage) };
+};
+
+// Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]". The last line
+// may come without a trailing newline, so whatever is left in the buffer at the end is read too.
+async function* readStream(response: Response): AsyncGenerator<StreamChunk> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: TokenUsage | undefined;
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    for (const line of lines) {
+      const event = parseEvent(line);
+      if (!event) continue;
+      usage = event.usage || usage;
+      if (event.text) yield { text: event.text };
+    }
+    if (done) break;
+  }
+  if (usage) yield { text: '', usage };
+}
+
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const headers = (json = true): Record<string, string> => ({
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+  });
+
+  const post = async (path: string, body: BodyInit, signal?: AbortSignal, json = true): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers: headers(json), body, signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderError(errorKindForStatus(response.status), `${response.status} ${response.statusText}: ${detail}`, response.status);
+    }
+    return response;
+  };
+
+  const complete = async (request: TextRequest, extra: Record<string, unknown> = {}) => {
+    const response = await post('/chat/completions', JSON.stringify({
+      model: request.model,
+      messages: toMessages(request, [{ role: 'user', content: request.prompt }]),
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      ...extra
+    }), request.signal);
+    const data = await response.json();
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new ProviderError('SAFETY_BLOCKED', 'Response withheld by the content filter.');
+    }
+    return { text: data.choices?.[0]?.message?.content || '', usage: toUsage(data.usage) };
+  };
+
+  // Some servers (e.g. LocalAI) ignore response_format and return a URL instead of base64
+  const toInlineImage = async (item: { b64_json?: string; url?: string }, signal?: AbortSignal): Promise<InlineImage | undefined> => {
+    if (item.b64_json) return { data: item.b64_json, mimeType: 'image/png' };
+    if (!item.url) return undefined;
+    const blob = await (await fetch(item.url, { signal })).blob();
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+    return { data: dataUrl.split(';base64,')[1], mimeType: blob.type || 'image/png' };
+  };
+
+  return {
+    id: 'openai-compatible',
+    models: config.models,
+
+    generateText: (request) => complete(request),
+
+    generateJson: (request) => complete(request, {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: request.schema }
+      }
+    }),
+
+    async *streamText(request) {
+      yield* readStream(await post('/chat/completions', JSON.stringify({
+        model: request.model,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: toMessages(request, [{ role: 'user', content: request.prompt }]),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens
+      }), request.signal));
+    },
+
+    async *streamChat(request) {
+      yield* readStream(await post('/chat/completions', JSON.stringify({
+        model: request.model,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: toMessages(request, [
+          ...request.history.map(turn => ({ role: turn.role === 'model' ? 'assistant' as const : 'user' as const, content: turn.text })),
+          { role: 'user', content: request.message }
+        ]),
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens
+      }), request.signal));
+    },
+
+    async generateImage(request) {
+      if (!request.model) {
+        throw new ProviderError('UNKNOWN', "No image model configured for the OpenAI-compatible provider.");
+      }
+      const size = IMAGE_SIZES[request.aspectRatio || "1:1"];
+      let response: Response;
+
+      if (request.inputImage) {
+        // Edits are multipart uploads of the source image
+        const bytes = Uint8Array.from(atob(request.inputImage.data), c => c.charCodeAt(0));
+        const form = new FormData();
+        form.append('model', request.model);
+        form.append('prompt', request.prompt);
+        form.append('image', new Blob([bytes], { type: request.inputImage.mimeType }), 'figure.png');
+        response = await post('/images/edits', form, request.signal, false);
+      } else {
+        response = await post('/images/generations', JSON.stringify({
+          model: request.model,
+          prompt: request.prompt,
+          size,
+          n: 1,
+          response_format: 'b64_json'
+        }), request.signal);
+      }
+
+      const data = await response.json();
+      const item = data.data?.[0] || {};
+      return { text: item.revised_prompt || '', image: await toInlineImage(item, request.signal), usage: toUsage(data.usage) };
+    }
+  };
+};
@@ -0,0 +1,222 @@
+import * as pdfjsLib from './pdfjs';
+import { ImportedManuscript, matchHeading } from "./manuscript";
+
+// Reads the text layer of a manuscript PDF into the app's plain-text form. Text is reassembled into lines,
+// two-column pages are read column by column (full-width blocks such as the title, abstract or a wide
+// figure split the page into bands read top to bottom), running headers, footers and page numbers
+// repeated across pages are dropped, and standard section names become "# Heading" lines.
+
+export interface PdfImport extends ImportedManuscript {
+  warnings: string[];
+}
+
+interface Line {
+  text: string;
+  page: number;
+  x0: number;
+  x1: number;
+  y: number; // baseline, from the bottom of the page
+  size: number;
+  column: 'full' | 'left' | 'right';
+}
+
+interface Paragraph {
+  text: string;
+  size: number;
+  page: number;
+}
+
+// Font size of a text item from its transform matrix
+const itemSize = (transform: number[]) => Math.hypot(transform[2], transform[3]) || Math.abs(transform[3]);
+
+// Text items on the same baseline closer than this (in font sizes) belong to one line; column gutters are wider
+const WORD_GAP = 1.5;
+
+const readLines = async (page: pdfjsLib.PDFPageProxy, pageNumber: number): Promise<{ lines: Line[]; width: number; height: number }> => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const items = content.items
+    .filter((item): item is Extract<typeof item, { str: string }> => 'str' in item && !!item.str.trim())
+    .map(item => ({
+      text: item.str,
+      x0: item.transform[4],
+      x1: item.transform[4] + item.width,
+      y: item.transform[5],
+      size: itemSize(item.transform)
+    }))
+    .sort((a, b) => b.y - a.y || a.x0 - b.x0);
+
+  // Merge items into line fragments on a shared baseline
+  const fragments: Omit<Line, 'column' | 'page'>[] = [];
+  for (const item of items) {
+    const line = fragments.find(f =>
+      Math.abs(f.y - item.y) < Math.max(f.size, item.size) * 0.4 &&
+      item.x0 >= f.x0 && item.x0 - f.x1 < Math.max(f.size, item.size) * WORD_GAP
+    );
+    if (line) {
+      // pdf.js emits spaces as separate items or leaves them out; add one where the gap shows a word break
+      const gap = item.x0 - line.x1;
+      line.text += gap > item.size * 0.15 && !/\s$/.test(line.text) && !/^\s/.test(item.text) ? ` ${item.text}` : item.text;
+      line.x1 = Math.max(line.x1, item.x1);
+      line.size = Math.max(line.size, item.size);
+    } else {
+      fragments.push({ ...item });
+    }
+  }
+
+  const middle = width / 2;
+  const lines = fragments.map(f => ({
+    ...f,
+    text: f.text.replace(/\s+/g, ' ').trim(),
+    page: pageNumber,
+    column: (f.x0 < middle - f.size && f.x1 > middle + f.size ? 'full' : f.x1 <= middle + f.size ? 'left' : 'right') as Line['column']
+  }));
+  return { lines: orderLines(lines), width, height };
+};
+
+// Reading order: a page with a real right column is read in bands between full-width lines, left column
+// first; otherwise top to bottom
+const orderLines = (lines: Line[]): Line[] => {
+  const byPosition = (a: Line, b: Line) => b.y - a.y || a.x0 - b.x0;
+  const right = lines.filter(l => l.column === 'right');
+  if (right.length < 5 || right.length < lines.length * 0.2) {
+    return lines.map(l => ({ ...l, column: 'full' as const })).sort(byPosition);
+  }
+  const ordered: Line[] = [];
+  let band: Line[] = [];
+  const flush = () => {
+    ordered.push(...band.filter(l => l.column === 'left').sort(byPosition), ...band.filter(l => l.column === 'right').sort(byPosition));
+    band = [];
+  };
+  for (const line of [...lines].sort(byPosition)) {
+    if (line.column === 'full') {
+      flush();
+      ordered.push(line);
+    } else {
+      band.push(line);
+    }
+  }
+  flush();
+  return ordered;
+};
+
+// Headers, footers and page numbers: lines near the top or bottom edge that repeat (digits aside) on many pages
+const dropRunningLines = (pages: { lines: Line[]; height: number }[]) => {
+  const isEdge = (line: Line, height: number) => line.y > height * 0.92 || line.y < height * 0.08;
+  const pattern = (line: Line) => line.text.replace(/\d+/g, '#').toLowerCase();
+  const counts = new Map<string, number>();
+  for (const { lines, height } of pages) {
+    for (const key of new Set(lines.filter(l => isEdge(l, height)).map(pattern))) counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  const minimum = Math.max(2, Math.ceil(pages.length / 2));
+  return pages.map(({ lines, height }) => lines.filter(line =>
+    !(isEdge(line, height) && (/^[\divxlc\s\-–/.]*$/i.test(line.text) || (pages.length > 2 && (counts.get(pattern(line)) || 0) >= minimum)))
+  ));
+};
+
+// Most common font size by amount of text: the body text size
+const bodySize = (lines: Line[]) => {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  }
+  return [...weights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 10;
+};
+
+const CAPTION = /^fig(?:ure)?\.?\s*\d+\s*[.:|]/i;
+// "Abstract: text" or "ABSTRACT Background ..." on a single line
+const INLINE_ABSTRACT = /^(abstract|summary)\s*(?:[.:—–-]\s*|\s+(?=[A-Z]))(.+)$/i;
+
+const joinLine = (text: string, next: string) =>
+  // Rejoin words hyphenated across a line break
+  /[a-z]-$/.test(text) && /^[a-z]/.test(next) ? text.slice(0, -1) + next : `${text} ${next}`;
+
+export const importPdf = async (file: Blob): Promise<PdfImport> => {
+  const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: { lines: Line[]; height: number }[] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    pages.push(await readLines(page, n));
+    page.cleanup();
+  }
+  await pdf.destroy();
+
+  const lines = dropRunningLines(pages).flat();
+  if (lines.reduce((sum, l) => sum + l.text.length, 0) < pages.length * 100) {
+    throw new Error('The PDF has little or no text layer (it may be scanned); run it through OCR or import the source document instead.');
+  }
+  const body = bodySize(lines);
+
+  // Title: the largest text on page 1, above the body size
+  const firstPage = lines.filter(l => l.page === 1);
+  const largest = Math.max(...firstPage.map(l => l.size));
+  const titleLines = largest > body * 1.2 ? firstPage.filter(l => Math.abs(l.size - largest) < 0.5) : [];
+  const title = titleLines.map(l => l.text).join(' ');
+
+  // Lines into paragraphs: break on a larger vertical gap, a change of font size, a new column or page after
+  // a finished sentence, and before headings and figure captions
+  const paragraphs: Paragraph[] = [];
+  const blocks: string[] = [];
+  let current: (Paragraph & { last: Line }) | null = null;
+  const flush = () => {
+    if (current) paragraphs.push({ text: current.text, size: current.size, page: current.page });
+    current = null;
+  };
+  const headingOf = (line: Line) => {
+    const heading = matchHeading(line.text);
+    // A standard name set as its own short line, or a short line clearly larger than the body text
+    if (heading) return `# ${heading}`;
+    if (line.size > body * 1.15 && line.text.length < 80 && /[a-z]/i.test(line.text) && !titleLines.includes(line)) return `## ${line.text}`;
+    return null;
+  };
+
+  for (const line of lines) {
+    if (titleLines.includes(line)) continue;
+    const heading = headingOf(line);
+    if (heading) {
+      flush();
+      paragraphs.push({ text: heading, size: line.size, page: line.page });
+      continue;
+    }
+    const inline = line.text.match(INLINE_ABSTRACT);
+    if (inline && !paragraphs.some(p => /^# (Abstract|Summary)$/.test(p.text))) {
+      flush();
+      paragraphs.push({ text: `# ${matchHeading(inline[1])}`, size: line.size, page: line.page });
+      current = { text: inline[2], size: line.size, page: line.page, last: line };
+      continue;
+    }
+    if (current) {
+      const last: Line = current.last;
+      const spacing = line.size * 1.2;
+      const sameFlow = last.page === line.page && last.column === line.column;
+      const gap = last.y - line.y;
+      const breaks = CAPTION.test(line.text) || Math.abs(line.size - current.size) > 0.75 ||
+        (sameFlow ? gap > spacing * 1.5 || gap < 0 : /[.?!:]$/.test(last.text));
+      if (breaks) flush();
+    }
+    if (current) {
+      current.text = joinLine(current.text, line.text);
+      current.last = line;
+    } else {
+      current = { text: line.text, size: line.size, page: line.page, last: line };
+    }
+  }
+  flush();
+
+  // Figure labels, axis ticks and stray numbers: short fragments in small type or without letters
+  for (const p of paragraphs) {
+    const words = p.text.split(' ').length;
+    if (!p.text.startsWith('#') && (!/[a-z]{2}/i.test(p.text) || (p.size < body * 0.85 && words < 4))) continue;
+    blocks.push(p.text);
+  }
+
+  const warnings: string[] = [];
+  if (!blocks.some(b => b.startsWith('# '))) {
+    warnings.push('No standard section headings (Abstract, Introduction, Methods, ...) were found; the text was imported as one section.');
+  }
+  if (!title) warnings.push('No title was recognized on the first page.');
+  warnings.push('Text was extracted from the PDF layout; check tables, equations and the reading order around figures.');
+
+  return { title, text: blocks.join('\n\n'), warnings };
+};
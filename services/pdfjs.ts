@@ -0,0 +1,8 @@
+import { GlobalWorkerOptions } from 'pdfjs-dist';
+
+// PDF.js, with its worker loaded from the CDN matching the import map; import it from here rather than
+// from 'pdfjs-dist' so the worker is set wherever PDFs are read.
+
+GlobalWorkerOptions.workerSrc = 'https://aistudiocdn.com/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs';
+
+export * from 'pdfjs-dist';
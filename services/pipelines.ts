@@ -0,0 +1,72 @@
+import { AnalysisType } from "../types";
+import { Infer, array, integer, object, string } from "./schema";
+
+// Named chains of Editor analyses (e.g. Logic Check → Impact Polish → Conciseness). Each step analyzes the
+// previous step's rewrite; a step without a rewrite (a critique) passes its input on unchanged. Stored in
+// localStorage next to the custom analyses the steps may refer to.
+
+export const pipelineSchema = object({
+  id: string(),
+  name: string(),
+  // Built-in AnalysisType values or custom analysis ids, in order
+  steps: array(string())
+});
+
+export type Pipeline = Infer<typeof pipelineSchema>;
+
+const pipelineFileSchema = object({
+  version: integer(),
+  pipelines: array(pipelineSchema)
+});
+
+// Offered until the user saves their own list
+export const DEFAULT_PIPELINES: Pipeline[] = [
+  { id: 'pipeline-presubmission', name: 'Pre-submission pass', steps: [AnalysisType.LOGIC_CHECK, AnalysisType.IMPACT_POLISH, AnalysisType.CONCISENESS] }
+];
+
+const STORAGE_KEY = 'manuscriptPilot.pipelines';
+
+const readStored = (): Pipeline[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? pipelineFileSchema.parse(JSON.parse(raw)).pipelines : DEFAULT_PIPELINES;
+  } catch (error) {
+    console.error("Error reading pipelines:", error);
+    return DEFAULT_PIPELINES;
+  }
+};
+
+// --- Store ---
+
+let pipelines = readStored();
+const listeners = new Set<() => void>();
+
+const writeStored = (next: Pipeline[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, pipelines: next }));
+  pipelines = next;
+  listeners.forEach(listener => listener());
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribePipelines = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getPipelines = () => pipelines;
+
+export const findPipeline = (id: string) => pipelines.find(p => p.id === id);
+
+export const newPipelineId = (name: string) => {
+  const base = `pipeline-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset'}`;
+  let id = base;
+  for (let n = 2; pipelines.some(p => p.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// Adds or replaces by id
+export const savePipeline = (pipeline: Pipeline) => {
+  writeStored(findPipeline(pipeline.id) ? pipelines.map(p => p.id === pipeline.id ? pipeline : p) : [...pipelines, pipeline]);
+};
+
+export const deletePipeline = (id: string) => writeStored(pipelines.filter(p => p.id !== id));
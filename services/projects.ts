@@ -0,0 +1,263 @@
+import { ManuscriptSnapshot, Project, ProjectWorkspace } from "../types";
+import { idbGet, idbGetAll, idbPut, idbDelete } from "./idb";
+import { EMPTY_MANUSCRIPT, getManuscript, replaceManuscript, subscribeManuscript } from "./manuscript";
+
+// A project is the manuscript plus each tab's work (Editor history and refinement chats, the cover
+// letter, figure versions) and named snapshots of earlier manuscript versions. The open project is
+// autosaved to IndexedDB shortly after every change, and can be exported as one JSON bundle, images
+// included as data URLs, to move it to another machine.
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export type SaveStatus = 'loading' | 'saved' | 'unsaved' | 'saving' | 'error';
+
+export interface ProjectState {
+  activeId: string | null;
+  name: string;
+  targetJournal: string;
+  // Most recently updated first
+  projects: ProjectSummary[];
+  status: SaveStatus;
+  // Snapshots of the open project, oldest first
+  snapshots: ManuscriptSnapshot[];
+}
+
+export interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Project;
+}
+
+export const DEFAULT_TARGET_JOURNAL = "Nature Cell Biology";
+export const BUNDLE_FORMAT = 'manuscript-pilot.project';
+
+const ACTIVE_KEY = 'manuscriptPilot.activeProject';
+const AUTOSAVE_DELAY_MS = 1000;
+
+let state: ProjectState = { activeId: null, name: '', targetJournal: DEFAULT_TARGET_JOURNAL, projects: [], status: 'loading', snapshots: [] };
+// The open project. Workspace edits replace it without touching `state`, so typing doesn't re-render the app.
+let current: Project | null = null;
+// Bumped on every change, so a save that raced with an edit doesn't report "saved"
+let revision = 0;
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+let opening = false;
+const listeners = new Set<() => void>();
+
+const setState = (patch: Partial<ProjectState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribeProjects = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getProjectState = () => state;
+
+const summarize = (project: Project): ProjectSummary => ({ id: project.id, name: project.name, updatedAt: project.updatedAt });
+
+const withSummary = (projects: ProjectSummary[], project: Project) =>
+  [summarize(project), ...projects.filter(p => p.id !== project.id)].sort((a, b) => b.updatedAt - a.updatedAt);
+
+const newProject = (name: string): Project => {
+  const now = Date.now();
+  return {
+    id: `project-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    targetJournal: state.targetJournal,
+    manuscript: EMPTY_MANUSCRIPT,
+    workspace: {}
+  };
+};
+
+const scheduleSave = () => {
+  if (!current || opening) return;
+  revision++;
+  if (state.status !== 'unsaved') setState({ status: 'unsaved' });
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(saveProject, AUTOSAVE_DELAY_MS);
+};
+
+// Writes the open project now instead of waiting for the autosave
+export const saveProject = async () => {
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+  if (!current) return;
+  const savedRevision = revision;
+  const project: Project = { ...current, manuscript: getManuscript(), updatedAt: Date.now() };
+  current = project;
+  setState({ status: 'saving' });
+  try {
+    await idbPut('projects', project.id, project);
+    setState({
+      projects: withSummary(state.projects, project),
+      status: revision === savedRevision ? 'saved' : 'unsaved'
+    });
+  } catch (error) {
+    console.error("Error saving project:", error);
+    setState({ status: 'error' });
+  }
+};
+
+const activate = (project: Project) => {
+  opening = true;
+  current = project;
+  replaceManuscript(project.manuscript);
+  opening = false;
+  localStorage.setItem(ACTIVE_KEY, project.id);
+  setState({ activeId: project.id, name: project.name, targetJournal: project.targetJournal, status: 'saved', snapshots: project.snapshots || [] });
+};
+
+subscribeManuscript(scheduleSave);
+
+// Don't lose the last second of typing when the tab is closed or hidden
+window.addEventListener('pagehide', () => { if (saveTimer) saveProject(); });
+document.addEventListener('visibilitychange', () => { if (document.hidden && saveTimer) saveProject(); });
+
+// Opens the last used project, creating a first one if there is none
+export const loadProjects = async () => {
+  let projects: Project[] = [];
+  try {
+    projects = await idbGetAll<Project>('projects');
+  } catch (error) {
+    console.error("Error loading projects:", error);
+  }
+  const summaries = projects.map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+  const lastId = localStorage.getItem(ACTIVE_KEY);
+  const project = projects.find(p => p.id === lastId) || projects.find(p => p.id === summaries[0]?.id);
+  setState({ projects: summaries });
+  if (project) {
+    activate(project);
+  } else {
+    await createProject('Untitled manuscript');
+  }
+};
+
+export const createProject = async (name: string) => {
+  if (current) await saveProject();
+  const project = newProject(name);
+  activate(project);
+  await saveProject();
+};
+
+export const openProject = async (id: string) => {
+  if (id === state.activeId) return;
+  if (current) await saveProject();
+  const project = await idbGet<Project>('projects', id);
+  if (project) activate(project);
+};
+
+export const renameProject = (name: string) => {
+  if (!current) return;
+  current = { ...current, name };
+  setState({ name, projects: state.projects.map(p => p.id === current!.id ? { ...p, name } : p) });
+  scheduleSave();
+};
+
+export const deleteProject = async (id: string) => {
+  await idbDelete('projects', id);
+  const remaining = state.projects.filter(p => p.id !== id);
+  setState({ projects: remaining });
+  if (id !== state.activeId) return;
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+  current = null;
+  const next = remaining[0] && await idbGet<Project>('projects', remaining[0].id);
+  if (next) {
+    activate(next);
+  } else {
+    await createProject('Untitled manuscript');
+  }
+};
+
+export const setProjectJournal = (targetJournal: string) => {
+  setState({ targetJournal });
+  if (!current) return;
+  current = { ...current, targetJournal };
+  scheduleSave();
+};
+
+// --- Snapshots ---
+
+const setSnapshots = (snapshots: ManuscriptSnapshot[]) => {
+  if (!current) return;
+  current = { ...current, snapshots };
+  setState({ snapshots });
+  scheduleSave();
+};
+
+// Keeps a named copy of the manuscript as it is now
+export const createSnapshot = (name: string) => {
+  const { source, ...manuscript } = getManuscript();
+  const now = Date.now();
+  setSnapshots([...state.snapshots, { id: `snap-${now.toString(36)}`, name, createdAt: now, manuscript }]);
+};
+
+export const renameSnapshot = (id: string, name: string) =>
+  setSnapshots(state.snapshots.map(s => s.id === id ? { ...s, name } : s));
+
+export const deleteSnapshot = (id: string) => setSnapshots(state.snapshots.filter(s => s.id !== id));
+
+// Saved work of the open project, read by the tabs when they mount
+export const getWorkspace = (): ProjectWorkspace => current?.workspace || {};
+
+// Records a tab's work; unchanged values (e.g. just restored on mount) are ignored
+export const updateWorkspace = <K extends keyof ProjectWorkspace>(key: K, value: ProjectWorkspace[K]) => {
+  if (!current) return;
+  const previous = current.workspace[key] as Record<string, unknown> | undefined;
+  if (previous && Object.entries(value as Record<string, unknown>).every(([k, v]) => previous[k] === v)) return;
+  current = { ...current, workspace: { ...current.workspace, [key]: value } };
+  scheduleSave();
+};
+
+// --- Bundles ---
+
+export const exportProjectBundle = async (): Promise<ProjectBundle> => {
+  await saveProject();
+  return { format: BUNDLE_FORMAT, version: 1, exportedAt: new Date().toISOString(), project: current! };
+};
+
+const invalid = (reason: string): never => {
+  throw new Error(`Not a Manuscript Pilot project bundle: ${reason}.`);
+};
+
+// JSON turns dates into strings
+const reviveDates = (workspace: ProjectWorkspace): ProjectWorkspace => ({
+  ...workspace,
+  ...(workspace.editor && {
+    editor: { ...workspace.editor, history: (workspace.editor.history || []).map(item => ({ ...item, timestamp: new Date(item.timestamp) })) }
+  }),
+  ...(workspace.figures && {
+    figures: { ...workspace.figures, messages: (workspace.figures.messages || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) })) }
+  })
+});
+
+// Imports a bundle as a new project (existing projects are never overwritten) and opens it
+export const importProjectBundle = async (data: unknown): Promise<Project> => {
+  const bundle = data as Partial<ProjectBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) invalid('unknown file format');
+  const source = bundle!.project;
+  if (!source || typeof source !== 'object') invalid('no project');
+  if (typeof source!.manuscript !== 'object' || !source!.manuscript) invalid('no manuscript');
+  if (current) await saveProject();
+  const project: Project = {
+    ...newProject(typeof source!.name === 'string' && source!.name.trim() ? source!.name : 'Imported manuscript'),
+    createdAt: source!.createdAt || Date.now(),
+    targetJournal: source!.targetJournal || state.targetJournal,
+    manuscript: { ...EMPTY_MANUSCRIPT, ...source!.manuscript },
+    workspace: reviveDates(source!.workspace || {}),
+    snapshots: Array.isArray(source!.snapshots) ? source!.snapshots : []
+  };
+  activate(project);
+  await saveProject();
+  return project;
+};
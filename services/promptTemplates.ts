@@ -0,0 +1,406 @@
+import { AnalysisType } from "../types";
+
+// Registry of every prompt sent to a model. Templates use {{variable}} placeholders and carry a
+// version that is bumped whenever the built-in text changes. Lab admins can override any template
+// from Settings; overrides are versioned separately so results can be traced to the exact text.
+
+export type PromptTemplateId =
+  | 'analysis.system'
+  | 'analysis.impactPolish'
+  | 'analysis.logicCheck'
+  | 'analysis.conciseness'
+  | 'analysis.rebuttal'
+  | 'coverLetter'
+  | 'figure.pro'
+  | 'figure.flashEdit'
+  | 'figure.flashGenerate'
+  | 'journal.guidelines'
+  | 'journal.tierRubric'
+  | 'journal.fitEvaluation'
+  | 'manuscript.sectionSummary'
+  | 'chat.assistant'
+  | 'chat.refinement';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  version: number;
+  variables: string[];
+  body: string;
+}
+
+export interface PromptOverride {
+  body: string;
+  // Incremented on every save of this override
+  revision: number;
+  // Built-in version the override was written against
+  basedOn: number;
+  updatedAt: string;
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'analysis.system',
+    label: 'Editor: system instruction',
+    description: 'Persona and output rules shared by all Editor analyses. Keep the "## Rewrite" and "## Editor\'s Notes" headings: the Editor splits the answer on them.',
+    version: 2,
+    variables: ['journal', 'focus', 'tone'],
+    body: `You are a Senior Editor at {{journal}}.
+Your role is to assist researchers in refining their manuscripts to meet the specific standards of {{journal}}.
+
+Journal Style Priorities:
+1. {{focus}}
+2. Tone: {{tone}}
+
+Format your answer in exactly these parts:
+- If the task asks for a rewrite: a line "## Rewrite" followed by the complete rewritten text only, with no quotes, comments or markup around it.
+- A line "## Editor's Notes" followed by a bulleted list explaining *why* changes were made to fit {{journal}} (or, for a critique, your findings).`
+  },
+  {
+    id: 'analysis.impactPolish',
+    label: 'Editor: Impact Polish',
+    description: 'Rewrites text for flow and significance.',
+    version: 1,
+    variables: ['journal', 'text'],
+    body: `Please polish the following text specifically for submission to **{{journal}}**.
+
+Goals:
+- Enhance the flow and readability.
+- Ensure the significance is communicated in a way that suits {{journal}}'s audience.
+- Use active voice.
+
+Text to Polish:
+"{{text}}"`
+  },
+  {
+    id: 'analysis.logicCheck',
+    label: 'Editor: Logic Check',
+    description: 'Reviewer-style critique of the reasoning, answered as structured issues that quote the span they refer to.',
+    version: 2,
+    variables: ['journal', 'text'],
+    body: `Analyze the scientific logic of the following text as a reviewer for **{{journal}}**.
+Identify potential gaps in reasoning, over-interpretation of data, causal claims drawn from correlations, missing controls, or places where more experimental evidence might be requested by {{journal}} reviewers.
+
+Answer in the JSON format of the response schema instead of the Rewrite / Editor's Notes parts. For each issue, quote the sentence or clause it refers to exactly as it appears in the text, and suggest a concrete experiment, analysis or rewording.
+
+Text to Analyze:
+"{{text}}"`
+  },
+  {
+    id: 'analysis.conciseness',
+    label: 'Editor: Conciseness',
+    description: 'Shortens text while keeping its meaning.',
+    version: 2,
+    variables: ['journal', 'text', 'wordLimits'],
+    body: `Significantly shorten the following text while retaining all key scientific meaning.
+Aim for a word count reduction suitable for **{{journal}}**'s strict formatting limits.
+Known limits for {{journal}}: {{wordLimits}}.
+
+Text to Shorten:
+"{{text}}"`
+  },
+  {
+    id: 'analysis.rebuttal',
+    label: 'Editor: Rebuttal',
+    description: 'Refines a response to reviewers.',
+    version: 1,
+    variables: ['journal', 'text'],
+    body: `The user has provided a draft response to a reviewer or a specific reviewer comment for a manuscript submitted to **{{journal}}**.
+Refine this response to be polite, professional, firm yet conciliatory, adhering to standard conventions.
+
+Draft Response/Comment:
+"{{text}}"`
+  },
+  {
+    id: 'coverLetter',
+    label: 'Cover letter',
+    description: 'Letter structure and pitch. {{manuscript}} is the full text or its section digest.',
+    version: 1,
+    variables: ['journal', 'title', 'authorName', 'affiliation', 'editorName', 'abstract', 'manuscript', 'focus', 'tone'],
+    body: `Act as a Senior Editor helping to draft a high-impact Cover Letter for submission to **{{journal}}**.
+
+Manuscript Details:
+- Title: {{title}}
+- Corresponding Author: {{authorName}}
+- Affiliation: {{affiliation}}
+- Editor Name: {{editorName}}
+
+Abstract:
+"{{abstract}}"
+
+{{manuscript}}
+
+Task:
+1. Analyze the provided Abstract and Manuscript Content to extract the core novelty and conceptual advance.
+2. Write a compelling cover letter that pitches this specific advance to **{{journal}}**.
+
+Style Guide for {{journal}}:
+- Focus: {{focus}}
+- Tone: {{tone}}
+
+Structure:
+- Standard professional opening.
+- A strong "Hook" paragraph stating the major discovery immediately.
+- A concise summary of the key findings and why they matter.
+- A closing statement on why this fits {{journal}}'s scope.
+- Standard sign-off.`
+  },
+  {
+    id: 'figure.pro',
+    label: 'Figure: 2K generation (pro model)',
+    description: 'Text-to-image generation at high resolution.',
+    version: 2,
+    variables: ['journal', 'request', 'figureSpecs'],
+    body: `You are an expert scientific illustrator for **{{journal}}**.
+You specialize in creating figures that meet strict academic publication standards.
+
+Task: Generate a high-resolution (2K), publication-quality scientific figure.
+User Request: "{{request}}"
+
+ACADEMIC STANDARDS for {{journal}}:
+- **Visual Style**: Flat, vector-graphic aesthetic (like Adobe Illustrator/BioRender).
+- **Background**: Pure WHITE background. No gradients or textures.
+- **Typography**: Clean, sans-serif fonts (Arial/Helvetica style). High contrast and legible.
+- **Color Palette**: Professional, colorblind-safe palettes (e.g., Viridis, Okabe-Ito, or muted journal colors).
+- **Rigor**: Scientific accuracy is paramount. Diagrams should be schematic and logical.
+- **Journal figure rules**: {{figureSpecs}}`
+  },
+  {
+    id: 'figure.flashEdit',
+    label: 'Figure: edit (fast model)',
+    description: 'Edits an uploaded figure. {{resolutionNote}} is filled in when 2K was requested.',
+    version: 2,
+    variables: ['journal', 'request', 'resolutionNote', 'figureSpecs'],
+    body: `You are an expert scientific illustrator for **{{journal}}**.
+User Request to EDIT/MODIFY this image: "{{request}}"
+
+Instructions:
+- Modify the provided image to satisfy the user's request.
+- Maintain strict scientific accuracy and academic style.
+- Ensure the background remains clean (preferably white).
+- Provide a brief text summary of changes.
+- Respect the journal's figure rules: {{figureSpecs}}
+{{resolutionNote}}`
+  },
+  {
+    id: 'figure.flashGenerate',
+    label: 'Figure: 1K generation (fast model)',
+    description: 'Text-to-image drafts. The fast model takes the aspect ratio from the prompt.',
+    version: 2,
+    variables: ['journal', 'request', 'aspectRatio', 'figureSpecs'],
+    body: `You are an expert scientific illustrator for **{{journal}}**.
+User Request to GENERATE a scientific figure: "{{request}}"
+
+ACADEMIC REQUIREMENTS:
+- Style: Professional scientific illustration.
+- Background: Pure WHITE.
+- Content: accurate schematic or clear data visualization.
+- Font: Sans-serif, legible.
+- No artistic distortions.
+- Journal figure rules: {{figureSpecs}}
+Output Format: Please generate a {{aspectRatio}} image.`
+  },
+  {
+    id: 'journal.guidelines',
+    label: 'Journal guidelines',
+    description: 'Structured submission guideline summary. {{profile}} holds the saved journal profile, if any.',
+    version: 2,
+    variables: ['journal', 'profile'],
+    body: `Provide a structured summary of the submission guidelines for the academic journal: **{{journal}}**.
+
+Focus on:
+1. Typical Word Counts (Abstract, Article).
+2. Figure/Formatting rules (Fonts, Panels).
+3. Editorial Criteria (Scope, Novelty).
+
+Saved profile for this journal (use it where it applies; it may be empty):
+{{profile}}
+
+Return a JSON object adhering to the schema.`
+  },
+  {
+    id: 'journal.tierRubric',
+    label: 'Journal matcher: tier rubric',
+    description: 'Journal recommendations and the tiers they are judged against.',
+    version: 2,
+    variables: ['title', 'abstract', 'manuscript', 'knownJournals'],
+    body: `You are a Senior Editor and Strategic Publication Consultant.
+
+Task: Recommend 3-5 academic journals for the following manuscript.
+
+CRITICAL INSTRUCTION:
+You must perform a ruthless, objective assessment of the "Scientific Level" of the text.
+Do NOT suggest top-tier journals (Nature, Cell, NCB) just because the topic (Scope) matches.
+Only suggest them if the data quality, depth of mechanism, and conceptual novelty actually meet that bar.
+
+Tiers to consider:
+- **Top Tier (Nature, Cell, Science)**: Paradigm-shifting, massive in vivo data, broad interest.
+- **High Impact (NCB, Mol Cell, Dev Cell)**: Deep mechanism, complete story, strong novelty.
+- **Solid Mid-Tier (J Cell Sci, J Biol Chem, MBoC, J Cell Biol)**: Solid execution, incremental advance, or descriptive mechanism.
+- **Specialized/Reports**: Preliminary data or very niche focus.
+
+Journals the lab has profiles for (prefer these when they fit, but you may suggest others):
+{{knownJournals}}
+
+Manuscript Information:
+Title: "{{title}}"
+Abstract: "{{abstract}}"
+{{manuscript}}
+
+If the paper appears to be a "Solid Mid-Tier" quality, primarily suggest those, perhaps with one "Reach" option, but explicitly state in the qualityAnalysis why it might fall short of top tier (e.g. "Lacks in vivo rescue", "Mechanism is correlative").
+
+Return a JSON array.`
+  },
+  {
+    id: 'journal.fitEvaluation',
+    label: 'Journal matcher: fit check',
+    description: 'Editorial assessment against one target journal. {{profile}} holds the saved journal profile, if any.',
+    version: 2,
+    variables: ['journal', 'title', 'abstract', 'manuscript', 'profile'],
+    body: `Act as a Senior Editor at the journal: "{{journal}}".
+
+Your Task: Evaluate the suitability of the following manuscript for *your* specific journal.
+
+CRITICAL: You must distinguish between SCOPE (topic) and LEVEL (quality/impact).
+- A paper can be perfectly in scope (e.g., cell biology) but rejected because it is "incremental" or "lacks mechanism".
+- Be honest. If the text provided is not up to the standard of "{{journal}}", say so.
+
+Journal profile (may be empty):
+{{profile}}
+
+Manuscript:
+Title: "{{title}}"
+Abstract: "{{abstract}}"
+{{manuscript}}
+
+Analyze:
+1. Scope Match.
+2. Novelty/Impact sufficiency for this tier.
+3. Rigor/Quality of data presented.
+
+Return a JSON object.`
+  },
+  {
+    id: 'manuscript.sectionSummary',
+    label: 'Long manuscripts: section summary',
+    description: 'Condenses one section when a manuscript is too long to send verbatim.',
+    version: 1,
+    variables: ['section', 'text'],
+    body: `You are condensing one section of a scientific manuscript so that an editor can later judge the whole paper.
+Extract only what is in the text; do not evaluate or embellish. Keep quantitative details (n, effect sizes, p-values, model systems).
+
+Section: {{section}}
+Text:
+"{{text}}"`
+  },
+  {
+    id: 'chat.assistant',
+    label: 'Research assistant chat',
+    description: 'System instruction for the Research Assistant tab.',
+    version: 1,
+    variables: [],
+    body: `You are an intelligent research assistant for scientists submitting to top-tier biological journals.
+You can answer questions about:
+- Statistical analysis methods suitable for cell biology.
+- Experimental design and controls (e.g., rescue experiments, validation).
+- Clarifications on standard reviewer comments.
+- General scientific writing advice.
+
+Maintain a helpful, scholarly, and precise tone.`
+  },
+  {
+    id: 'chat.refinement',
+    label: 'Editor: refinement discussion',
+    description: 'System instruction for the "Discuss & Refine" thread on a history card.',
+    version: 1,
+    variables: ['journal', 'type', 'original', 'result'],
+    body: `You are discussing a specific text revision for a manuscript targeted at **{{journal}}**.
+
+Context:
+- Analysis Type: {{type}}
+- Original User Text: "{{original}}"
+- Your Previous Output/Revision: "{{result}}"
+
+The user will ask questions about your revision or ask for further adjustments.
+Answer specifically about this text snippet and how it fits the style of {{journal}}. Be concise and helpful.`
+  }
+];
+
+export const ANALYSIS_TEMPLATES: Record<AnalysisType, PromptTemplateId> = {
+  [AnalysisType.IMPACT_POLISH]: 'analysis.impactPolish',
+  [AnalysisType.LOGIC_CHECK]: 'analysis.logicCheck',
+  [AnalysisType.CONCISENESS]: 'analysis.conciseness',
+  [AnalysisType.REBUTTAL]: 'analysis.rebuttal'
+};
+
+const OVERRIDES_KEY = 'manuscriptPilot.promptOverrides';
+
+export const getPromptOverrides = (): Partial<Record<PromptTemplateId, PromptOverride>> => {
+  try {
+    const raw = localStorage.getItem(OVERRIDES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveOverrides = (overrides: Partial<Record<PromptTemplateId, PromptOverride>>) => {
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+  const template = PROMPT_TEMPLATES.find(t => t.id === id);
+  if (!template) throw new Error(`Unknown prompt template: ${id}`);
+  return template;
+};
+
+export const savePromptOverride = (id: PromptTemplateId, body: string) => {
+  const overrides = getPromptOverrides();
+  const previous = overrides[id];
+  overrides[id] = {
+    body,
+    revision: (previous?.revision || 0) + 1,
+    basedOn: getPromptTemplate(id).version,
+    updatedAt: new Date().toISOString()
+  };
+  saveOverrides(overrides);
+};
+
+export const resetPromptOverride = (id: PromptTemplateId) => {
+  const overrides = getPromptOverrides();
+  delete overrides[id];
+  saveOverrides(overrides);
+};
+
+// "coverLetter@v1" for the built-in text, "coverLetter@v1+custom.3" for the third saved override
+export const templateVersion = (id: PromptTemplateId, override = getPromptOverrides()[id]) =>
+  override
+    ? `${id}@v${override.basedOn}+custom.${override.revision}`
+    : `${id}@v${getPromptTemplate(id).version}`;
+
+// Placeholders in a body that the template does not provide
+export const unknownVariables = (template: PromptTemplate, body: string) =>
+  [...new Set([...body.matchAll(/\{\{(\w+)\}\}/g)].map(m => m[1]))].filter(name => !template.variables.includes(name));
+
+export interface RenderedPrompt {
+  text: string;
+  version: string;
+}
+
+// Fills {{variable}} placeholders; unknown ones are left as written
+export const fillTemplate = (body: string, variables: Record<string, string>) =>
+  body.replace(/\{\{(\w+)\}\}/g, (match, name) => name in variables ? variables[name] : match);
+
+/**
+ * Fills a template (the user's override if there is one) with the given variables.
+ * Unknown placeholders are left as written so a typo shows up in the prompt rather than vanishing.
+ */
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string> = {}): RenderedPrompt => {
+  const override = getPromptOverrides()[id];
+  const body = override ? override.body : getPromptTemplate(id).body;
+  return {
+    text: fillTemplate(body, variables),
+    version: templateVersion(id, override)
+  };
+};
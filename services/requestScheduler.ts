@@ -0,0 +1,213 @@
+import { LLMProvider } from "./llmProvider";
+import { classifyError, cancelledError, abortableDelay } from "./serviceErrors";
+
+// Central queue for every model call: bounded concurrency, per-model requests-per-minute budgets,
+// and exponential backoff on rate limits (429) and server/network errors (5xx).
+
+export interface ModelBudget {
+  model: string;
+  requestsPerMinute: number;
+}
+
+export interface SchedulerSettings {
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Applies to models without an explicit budget
+  defaultRequestsPerMinute: number;
+  modelBudgets: ModelBudget[];
+}
+
+export interface SchedulerStatus {
+  running: number;
+  queued: number;
+  retrying: number;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  maxConcurrent: 2,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  defaultRequestsPerMinute: 30,
+  modelBudgets: [
+    { model: 'gemini-3-pro-preview', requestsPerMinute: 20 },
+    { model: 'gemini-2.5-flash-image', requestsPerMinute: 10 },
+    { model: 'gemini-3-pro-image-preview', requestsPerMinute: 5 }
+  ]
+};
+
+const SETTINGS_KEY = 'manuscriptPilot.schedulerSettings';
+const WINDOW_MS = 60000;
+
+export const getSchedulerSettings = (): SchedulerSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SCHEDULER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SCHEDULER_SETTINGS;
+  } catch {
+    return DEFAULT_SCHEDULER_SETTINGS;
+  }
+};
+
+export const saveSchedulerSettings = (settings: SchedulerSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  pump();
+};
+
+// --- Queue state ---
+
+interface Waiter {
+  model: string;
+  start: () => void;
+}
+
+const waiting: Waiter[] = [];
+const recentStarts = new Map<string, number[]>();
+let running = 0;
+let retrying = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+let status: SchedulerStatus = { running: 0, queued: 0, retrying: 0 };
+const listeners = new Set<() => void>();
+
+const emit = () => {
+  status = { running, queued: waiting.length, retrying };
+  listeners.forEach(listener => listener());
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribeScheduler = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getSchedulerStatus = () => status;
+
+const budgetFor = (model: string, settings: SchedulerSettings) =>
+  settings.modelBudgets.find(b => b.model === model)?.requestsPerMinute ?? settings.defaultRequestsPerMinute;
+
+// Milliseconds until this model may start another request (0 = now)
+const budgetWait = (model: string, now: number, settings: SchedulerSettings) => {
+  const starts = (recentStarts.get(model) || []).filter(t => now - t < WINDOW_MS);
+  recentStarts.set(model, starts);
+  const budget = budgetFor(model, settings);
+  return budget > 0 && starts.length >= budget ? WINDOW_MS - (now - starts[0]) : 0;
+};
+
+function pump() {
+  const settings = getSchedulerSettings();
+  const now = Date.now();
+  let nextWake = Infinity;
+
+  // FIFO, but a model that is over budget does not block requests for other models
+  for (let i = 0; i < waiting.length && running < settings.maxConcurrent;) {
+    const wait = budgetWait(waiting[i].model, now, settings);
+    if (wait > 0) {
+      nextWake = Math.min(nextWake, wait);
+      i++;
+      continue;
+    }
+    const [waiter] = waiting.splice(i, 1);
+    running++;
+    recentStarts.get(waiter.model)!.push(now);
+    waiter.start();
+  }
+
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = nextWake < Infinity ? setTimeout(pump, nextWake) : null;
+  emit();
+}
+
+// Resolves once a slot is free and the model is within budget. Aborting removes the request from the queue.
+const acquire = (model: string, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const onAbort = () => {
+    const index = waiting.indexOf(waiter);
+    if (index >= 0) {
+      waiting.splice(index, 1);
+      emit();
+      reject(cancelledError());
+    }
+  };
+  const waiter: Waiter = {
+    model,
+    start: () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  waiting.push(waiter);
+  pump();
+});
+
+const release = () => {
+  running--;
+  pump();
+};
+
+const isRetryable = (error: unknown) => {
+  const kind = classifyError(error).kind;
+  return kind === 'QUOTA_EXCEEDED' || kind === 'NETWORK';
+};
+
+const backoff = async (attempt: number, settings: SchedulerSettings, signal?: AbortSignal) => {
+  const delay = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** attempt) + Math.random() * 250;
+  retrying++;
+  emit();
+  try {
+    await abortableDelay(delay, signal);
+  } finally {
+    retrying--;
+    emit();
+  }
+};
+
+export const schedule = async <T>(model: string, run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const settings = getSchedulerSettings();
+  for (let attempt = 0; ; attempt++) {
+    await acquire(model, signal);
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= settings.maxRetries || !isRetryable(error)) throw error;
+      console.warn(`Retrying ${model} after error (attempt ${attempt + 1}/${settings.maxRetries}):`, error);
+    } finally {
+      release();
+    }
+    await backoff(attempt, settings, signal);
+  }
+};
+
+// Streams hold their slot until finished. They are only retried if they fail before the
+// first chunk, so a consumer never sees duplicated output.
+export async function* scheduleStream<T>(model: string, run: () => AsyncGenerator<T>, signal?: AbortSignal): AsyncGenerator<T> {
+  const settings = getSchedulerSettings();
+  for (let attempt = 0; ; attempt++) {
+    await acquire(model, signal);
+    let started = false;
+    try {
+      for await (const item of run()) {
+        started = true;
+        yield item;
+      }
+      return;
+    } catch (error) {
+      if (started || attempt >= settings.maxRetries || !isRetryable(error)) throw error;
+      console.warn(`Retrying ${model} stream after error (attempt ${attempt + 1}/${settings.maxRetries}):`, error);
+    } finally {
+      release();
+    }
+    await backoff(attempt, settings, signal);
+  }
+}
+
+export const withScheduler = (provider: LLMProvider): LLMProvider => ({
+  ...provider,
+  generateText: (request) => schedule(request.model, () => provider.generateText(request), request.signal),
+  generateJson: (request) => schedule(request.model, () => provider.generateJson(request), request.signal),
+  streamText: (request) => scheduleStream(request.model, () => provider.streamText(request), request.signal),
+  streamChat: (request) => scheduleStream(request.model, () => provider.streamChat(request), request.signal),
+  generateImage: (request) => schedule(request.model, () => provider.generateImage(request), request.signal)
+});
@@ -0,0 +1,177 @@
+import { LLMProvider, ModelTask, ProviderId, TextRequest, TextResponse, StreamChunk, TokenUsage } from "./llmProvider";
+import { idbGet, idbGetAll, idbPut, idbDelete, idbClear } from "./idb";
+import { hashRequest } from "./requestHash";
+
+// Persistent cache for text and JSON responses. Entries are keyed on everything that shapes the
+// answer (model, prompt, system instruction, temperature, schema) and expire per task.
+// Chat and image calls are never cached: chats are conversational and figures are meant to vary.
+
+export type CachedTask = 'analyzeManuscriptText' | 'generateCoverLetter' | 'getJournalGuidelines' | 'suggestTargetJournals' | 'evaluateJournalFit' | 'summarizeManuscriptChunk';
+
+export interface CacheSettings {
+  enabled: boolean;
+  // 0 disables caching for that task
+  ttlHours: Record<CachedTask, number>;
+}
+
+export interface CacheEntry {
+  key: string;
+  kind: 'text' | 'json';
+  task?: ModelTask;
+  model: string;
+  // Short excerpt for the cache inspector
+  promptPreview: string;
+  response: TextResponse;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export const CACHED_TASK_LABELS: Record<CachedTask, string> = {
+  analyzeManuscriptText: 'Editor analyses',
+  generateCoverLetter: 'Cover letters',
+  getJournalGuidelines: 'Journal guidelines',
+  suggestTargetJournals: 'Journal suggestions',
+  evaluateJournalFit: 'Journal fit checks',
+  summarizeManuscriptChunk: 'Long-manuscript section summaries'
+};
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: true,
+  ttlHours: {
+    analyzeManuscriptText: 24,
+    // A fresh draft is usually what "Generate" means
+    generateCoverLetter: 0,
+    getJournalGuidelines: 24 * 7,
+    suggestTargetJournals: 24,
+    evaluateJournalFit: 24,
+    // Summaries only depend on the section text, so unchanged sections are never summarized twice
+    summarizeManuscriptChunk: 24 * 30
+  }
+};
+
+const SETTINGS_KEY = 'manuscriptPilot.cacheSettings';
+
+export const getCacheSettings = (): CacheSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_CACHE_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<CacheSettings>;
+    return {
+      enabled: stored.enabled ?? DEFAULT_CACHE_SETTINGS.enabled,
+      ttlHours: { ...DEFAULT_CACHE_SETTINGS.ttlHours, ...stored.ttlHours }
+    };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const ttlFor = (task: ModelTask | undefined, settings: CacheSettings) =>
+  settings.enabled && task && task in settings.ttlHours ? settings.ttlHours[task as CachedTask] : 0;
+
+// The endpoint that answers: two servers can serve the same model name with different weights
+interface CacheScope {
+  provider: ProviderId;
+  baseUrl: string;
+}
+
+// Task, signal and the refresh flag do not change the answer, so they stay out of the key
+const cacheKey = (kind: CacheEntry['kind'], scope: CacheScope, request: TextRequest) => {
+  const { task, signal, forceRefresh, ...rest } = request;
+  return `${kind}:${hashRequest({ ...rest, provider: scope.provider, baseUrl: scope.baseUrl })}`;
+};
+
+const lookup = async (key: string, request: TextRequest) => {
+  if (request.forceRefresh) return undefined;
+  const entry = await idbGet<CacheEntry>('responseCache', key).catch(() => undefined);
+  return entry && Date.parse(entry.expiresAt) > Date.now() ? entry : undefined;
+};
+
+const store = async (key: string, kind: CacheEntry['kind'], request: TextRequest, response: TextResponse, ttl: number) => {
+  const now = Date.now();
+  await idbPut<CacheEntry>('responseCache', key, {
+    key,
+    kind,
+    task: request.task,
+    model: request.model,
+    promptPreview: request.prompt.replace(/\s+/g, ' ').trim().slice(0, 160),
+    response,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl * 3600000).toISOString()
+  }).catch(error => console.error("Error writing response cache:", error));
+};
+
+const cached = async <R extends TextRequest>(
+  kind: CacheEntry['kind'],
+  scope: CacheScope,
+  request: R,
+  run: (request: R) => Promise<TextResponse>
+): Promise<TextResponse> => {
+  const ttl = ttlFor(request.task, getCacheSettings());
+  if (ttl <= 0) return run(request);
+
+  const key = cacheKey(kind, scope, request);
+  const entry = await lookup(key, request);
+  if (entry) return { ...entry.response, cachedAt: entry.createdAt };
+
+  const response = await run(request);
+  await store(key, kind, request, response, ttl);
+  return response;
+};
+
+// Streamed text shares entries with generateText: a hit is replayed as a single chunk
+async function* cachedStream(scope: CacheScope, request: TextRequest, run: () => AsyncGenerator<StreamChunk>): AsyncGenerator<StreamChunk> {
+  const ttl = ttlFor(request.task, getCacheSettings());
+  if (ttl <= 0) {
+    yield* run();
+    return;
+  }
+
+  const key = cacheKey('text', scope, request);
+  const entry = await lookup(key, request);
+  if (entry) {
+    yield { text: entry.response.text };
+    return;
+  }
+
+  let text = '';
+  let usage: TokenUsage | undefined;
+  for await (const chunk of run()) {
+    text += chunk.text;
+    usage = chunk.usage || usage;
+    yield chunk;
+  }
+  // Only complete streams are cached
+  await store(key, 'text', request, { text, usage }, ttl);
+}
+
+// `baseUrl` is the configured endpoint of the provider (empty for the provider's default)
+export const withCache = (provider: LLMProvider, baseUrl: string): LLMProvider => {
+  const scope: CacheScope = { provider: provider.id, baseUrl };
+  return {
+    ...provider,
+    generateText: (request) => cached('text', scope, request, r => provider.generateText(r)),
+    generateJson: (request) => cached('json', scope, request, r => provider.generateJson(r)),
+    streamText: (request) => cachedStream(scope, request, () => provider.streamText(request))
+  };
+};
+
+// --- Inspector ---
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> =>
+  (await idbGetAll<CacheEntry>('responseCache')).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const deleteCacheEntry = (key: string) => idbDelete('responseCache', key);
+
+export const clearCache = () => idbClear('responseCache');
+
+export const pruneExpiredCache = async (): Promise<number> => {
+  const expired = (await idbGetAll<CacheEntry>('responseCache')).filter(e => Date.parse(e.expiresAt) <= Date.now());
+  for (const entry of expired) {
+    await idbDelete('responseCache', entry.key);
+  }
+  return expired.length;
+};
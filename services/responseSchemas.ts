@@ -0,0 +1,83 @@
+import { Infer, array, integer, object, oneOf, string } from "./schema";
+
+// Response schemas for every structured model call. The types in types.ts are derived from these.
+
+export const JOURNAL_VERDICTS = ["Strong Candidate", "Worth Trying", "High Risk", "Out of Scope", "Insufficient Quality/Novelty"] as const;
+
+export const journalGuidelinesSchema = object({
+  journalName: string(),
+  wordCounts: object({
+    article: string(),
+    abstract: string(),
+    methods: string(),
+  }),
+  formatting: object({
+    figures: string(),
+    references: string(),
+    fonts: string(),
+  }),
+  editorialCriteria: object({
+    scope: string(),
+    novelty: string(),
+    dataRigor: string(),
+  })
+});
+
+export const journalSuggestionSchema = object({
+  name: string({ description: "Name of the journal" }),
+  matchScore: integer({ description: "0-100. Weighted heavily by quality fit, not just topic fit.", min: 0, max: 100 }),
+  tier: string({ description: "e.g. Top Tier, High Impact, Solid Mid-Tier, Specialized" }),
+  rationale: string({ description: "Why does this topic fit the journal's scope? (Subject matter only)" }),
+  qualityAnalysis: string({ description: "Critical assessment of why the paper's QUALITY fits this tier. Be specific about data depth/novelty." }),
+  advice: string({ description: "Specific advice to improve acceptance odds." })
+});
+
+export const journalSuggestionsSchema = array(journalSuggestionSchema);
+
+export const journalEvaluationSchema = object({
+  journalName: string(),
+  matchScore: integer({ description: "0-100. If quality is too low for this journal, score must be low (<50).", min: 0, max: 100 }),
+  verdict: oneOf(JOURNAL_VERDICTS),
+  strengths: array(string(), { description: "List of 3 key strengths" }),
+  weaknesses: array(string(), { description: "List of 3 key weaknesses (e.g. lack of mechanism, limited novelty)" }),
+  editorComments: string({ description: "Internal decision note focusing on whether the bar for impact/novelty is met." })
+});
+
+export const chunkSummarySchema = object({
+  findings: array(string(), { description: "Key results, each with its supporting data" }),
+  methods: array(string(), { description: "Experimental systems and techniques used" }),
+  claims: array(string(), { description: "Conclusions and interpretations the authors draw" }),
+  limitations: array(string(), { description: "Caveats, missing controls or limitations stated or evident" })
+});
+
+export const LOGIC_ISSUE_CATEGORIES = [
+  "over-interpretation",
+  "missing control",
+  "causal claim from correlation",
+  "unsupported generalization",
+  "statistical concern",
+  "logical gap",
+  "other"
+] as const;
+
+export const LOGIC_ISSUE_SEVERITIES = ["major", "moderate", "minor"] as const;
+
+export const logicIssueSchema = object({
+  quote: string({ description: "The exact span of the text the issue refers to, copied verbatim (one sentence or clause)" }),
+  category: oneOf(LOGIC_ISSUE_CATEGORIES),
+  severity: oneOf(LOGIC_ISSUE_SEVERITIES, { description: "major: a reviewer would likely request new work; minor: wording or framing" }),
+  problem: string({ description: "What a reviewer would object to, in one or two sentences" }),
+  suggestion: string({ description: "A concrete experiment, analysis or rewording that would resolve it" })
+});
+
+export const logicCheckSchema = object({
+  summary: string({ description: "One or two sentences on the overall soundness of the reasoning" }),
+  issues: array(logicIssueSchema, { description: "Most important first; empty if the reasoning is sound" })
+});
+
+export type JournalGuidelines = Infer<typeof journalGuidelinesSchema>;
+export type JournalSuggestion = Infer<typeof journalSuggestionSchema>;
+export type JournalEvaluationResult = Infer<typeof journalEvaluationSchema>;
+export type ChunkSummary = Infer<typeof chunkSummarySchema>;
+export type LogicIssue = Infer<typeof logicIssueSchema>;
+export type LogicCheckResult = Infer<typeof logicCheckSchema>;
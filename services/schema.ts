@@ -0,0 +1,131 @@
+import { JsonSchema } from "./llmProvider";
+import { ProviderError, parseJsonResponse } from "./serviceErrors";
+
+// One definition per structured response: `json` is sent to the provider as the response schema,
+// `parse` checks the model's output at runtime and `Infer` gives the TypeScript type.
+// Output that is merely sloppy (numbers as strings, wrong enum casing, a list where a string was
+// expected, an array wrapped in an object) is repaired; anything else is rejected as MALFORMED_JSON.
+
+export interface Schema<T> {
+  json: JsonSchema;
+  parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+interface Described {
+  description?: string;
+}
+
+const reject = (path: string, expected: string, value: unknown): never => {
+  const got = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  throw new ProviderError('MALFORMED_JSON', `Unexpected data shape: ${path || 'root'} should be ${expected}, got ${got}.`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = ({ description }: Described = {}): Schema<string> => ({
+  json: { type: 'string', description },
+  parse: (value, path = '') => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    // Models sometimes answer a prose field with a bullet list
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join('; ');
+    return reject(path, 'a string', value);
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[], { description }: Described = {}): Schema<T> => ({
+  json: { type: 'string', description, enum: [...values] },
+  parse: (value, path = '') => {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+    const match = values.find(v => v.toLowerCase() === normalized);
+    return match ?? reject(path, `one of ${values.map(v => `"${v}"`).join(', ')}`, value);
+  }
+});
+
+export const integer = ({ description, min, max }: Described & { min?: number; max?: number } = {}): Schema<number> => ({
+  json: { type: 'integer', description },
+  parse: (value, path = '') => {
+    // "85", "85%" and 84.6 all become 85
+    const n = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    if (!Number.isFinite(n)) return reject(path, 'an integer', value);
+    return Math.min(max ?? Infinity, Math.max(min ?? -Infinity, Math.round(n)));
+  }
+});
+
+export const number = ({ description, min, max }: Described & { min?: number; max?: number } = {}): Schema<number> => ({
+  json: { type: 'number', description },
+  parse: (value, path = '') => {
+    const n = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    if (!Number.isFinite(n)) return reject(path, 'a number', value);
+    return Math.min(max ?? Infinity, Math.max(min ?? -Infinity, n));
+  }
+});
+
+// Invalid items are dropped; the array is only rejected when nothing valid is left of a non-empty list
+export const array = <T>(items: Schema<T>, { description }: Described = {}): Schema<T[]> => ({
+  json: { type: 'array', description, items: items.json },
+  parse: (value, path = '') => {
+    // { "journals": [...] } instead of [...]
+    if (isRecord(value)) {
+      const lists = Object.values(value).filter(Array.isArray);
+      if (lists.length === 1) value = lists[0];
+    }
+    if (!Array.isArray(value)) return reject(path, 'an array', value);
+    const valid: T[] = [];
+    let firstError: unknown;
+    value.forEach((item, i) => {
+      try {
+        valid.push(items.parse(item, `${path}[${i}]`));
+      } catch (error) {
+        firstError = firstError || error;
+      }
+    });
+    if (firstError) {
+      if (valid.length === 0) throw firstError;
+      console.warn(`Dropped ${value.length - valid.length} malformed item(s) from ${path || 'response'}:`, firstError);
+    }
+    return valid;
+  }
+});
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOf<P extends Shape, O extends keyof P> = { [K in Exclude<keyof P, O>]: Infer<P[K]> } & { [K in O]?: Infer<P[K]> };
+
+// Keys listed in `optional` may be missing; every other key is required
+export const object = <P extends Shape, O extends keyof P = never>(
+  properties: P,
+  { description, optional = [] }: Described & { optional?: O[] } = {}
+): Schema<ObjectOf<P, O>> => {
+  const required = Object.keys(properties).filter(key => !(optional as string[]).includes(key));
+  return {
+    json: {
+      type: 'object',
+      description,
+      properties: Object.fromEntries(Object.entries(properties).map(([key, schema]) => [key, schema.json])),
+      required
+    },
+    parse: (value, path = '') => {
+      if (!isRecord(value)) return reject(path, 'an object', value);
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(properties)) {
+        const field = value[key];
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (field === undefined || field === null) {
+          if (required.includes(key)) reject(fieldPath, 'present', field);
+          continue;
+        }
+        result[key] = schema.parse(field, fieldPath);
+      }
+      // Every field was parsed by its own schema and every required one checked
+      return result as ObjectOf<P, O>;
+    }
+  };
+};
+
+// Parses a JSON model response and validates it against the schema
+export const parseWithSchema = <T>(text: string, schema: Schema<T>): T =>
+  schema.parse(parseJsonResponse<unknown>(text));
@@ -0,0 +1,121 @@
+import { ServiceError, ServiceErrorKind, ServiceResult } from "../types";
+
+// Thrown by provider adapters when they can classify a failure themselves (e.g. a safety block in a 200 response)
+export class ProviderError extends Error {
+  constructor(readonly kind: ServiceErrorKind, message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const ERROR_COPY: Record<ServiceErrorKind, { title: string; advice: string }> = {
+  QUOTA_EXCEEDED: {
+    title: 'Rate limit or quota exceeded',
+    advice: 'The provider is throttling requests. Wait a minute and retry, or check the billing/quota of your API key.'
+  },
+  INVALID_KEY: {
+    title: 'API key rejected',
+    advice: 'Select a valid API key, or check the key and endpoint configured in Settings.'
+  },
+  SAFETY_BLOCKED: {
+    title: 'Blocked by safety filters',
+    advice: 'The model refused this content. Rephrase the request or remove the passage that triggered the filter.'
+  },
+  MALFORMED_JSON: {
+    title: 'Unreadable model response',
+    advice: 'The model did not return the expected structured data. Retrying usually fixes this.'
+  },
+  NETWORK: {
+    title: 'Connection problem',
+    advice: 'The model endpoint could not be reached or returned a server error. Check your connection and retry.'
+  },
+  CANCELLED: {
+    title: 'Stopped',
+    advice: 'The request was cancelled before it finished.'
+  },
+  BUDGET_EXCEEDED: {
+    title: 'Budget cap reached',
+    advice: 'The daily or per-manuscript spending cap set on the Usage page has been reached. Raise the cap to continue.'
+  },
+  UNKNOWN: {
+    title: 'Something went wrong',
+    advice: 'The request failed unexpectedly. Retry, and check the browser console if it keeps happening.'
+  }
+};
+
+export const errorKindForStatus = (status: number): ServiceErrorKind => {
+  if (status === 429) return 'QUOTA_EXCEEDED';
+  if (status === 401 || status === 403) return 'INVALID_KEY';
+  if (status >= 500) return 'NETWORK';
+  return 'UNKNOWN';
+};
+
+export const cancelledError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isCancellation = (error: unknown) =>
+  (error as { name?: string })?.name === 'AbortError';
+
+// setTimeout that rejects with an AbortError as soon as the signal fires
+export const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const classifyError = (error: unknown): ServiceError => {
+  const message = error instanceof Error ? error.message : String(error);
+  // UNKNOWN provider errors still get a chance to be recognized from their message below
+  if (error instanceof ProviderError && error.kind !== 'UNKNOWN') {
+    return { kind: error.kind, message };
+  }
+  if (isCancellation(error)) {
+    return { kind: 'CANCELLED', message };
+  }
+  if (error instanceof SyntaxError) {
+    return { kind: 'MALFORMED_JSON', message };
+  }
+
+  const status = statusOf(error);
+  if (status !== undefined && errorKindForStatus(status) !== 'UNKNOWN') {
+    return { kind: errorKindForStatus(status), message };
+  }
+  const lower = message.toLowerCase();
+  if (lower.includes('resource_exhausted') || lower.includes('quota') || lower.includes('rate limit')) {
+    return { kind: 'QUOTA_EXCEEDED', message };
+  }
+  if (lower.includes('api key not valid') || lower.includes('api_key_invalid') || lower.includes('permission_denied')) {
+    return { kind: 'INVALID_KEY', message };
+  }
+  if (error instanceof TypeError || lower.includes('failed to fetch') || lower.includes('networkerror')) {
+    return { kind: 'NETWORK', message };
+  }
+  return { kind: 'UNKNOWN', message };
+};
+
+export const failure = (context: string, error: unknown): ServiceResult<never> => {
+  console.error(`Error ${context}:`, error);
+  return { status: 'error', error: classifyError(error) };
+};
+
+export const parseJsonResponse = <T>(text: string): T => {
+  if (!text.trim()) {
+    throw new ProviderError('MALFORMED_JSON', 'The model returned an empty response.');
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new ProviderError('MALFORMED_JSON', `Invalid JSON from model: ${(error as Error).message}`);
+  }
+};
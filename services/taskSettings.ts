@@ -0,0 +1,101 @@
+import { GenerationParams, LLMProvider, ProviderId, ProviderModels, getProviderSettings } from "./llmProvider";
+
+// Per-task model choice and generation settings, so quality can be traded for cost per workflow.
+// Settings are kept per provider because model IDs only make sense for the provider that serves them.
+
+export type GenerationTask =
+  | 'analysis'
+  | 'coverLetter'
+  | 'journalMatching'
+  | 'guidelines'
+  | 'sectionSummary'
+  | 'assistantChat'
+  | 'refinementChat'
+  | 'figureDraft'
+  | 'figureEdit'
+  | 'figureHighRes';
+
+export interface TaskGenerationSettings extends GenerationParams {
+  // Empty: the provider's text, fast image or pro image model, depending on the task
+  model: string;
+}
+
+export type TaskSettings = Record<GenerationTask, TaskGenerationSettings>;
+
+export interface GenerationTaskInfo {
+  label: string;
+  hint: string;
+  role: keyof ProviderModels;
+}
+
+export const GENERATION_TASKS: Record<GenerationTask, GenerationTaskInfo> = {
+  analysis: { label: 'Editor analyses', hint: 'Polish, logic check, conciseness, rebuttal.', role: 'text' },
+  coverLetter: { label: 'Cover letters', hint: 'Full letter drafts.', role: 'text' },
+  journalMatching: { label: 'Journal matching', hint: 'Suggestions and fit checks.', role: 'text' },
+  guidelines: { label: 'Journal guidelines', hint: 'Structured guideline summaries.', role: 'text' },
+  sectionSummary: { label: 'Section summaries', hint: 'Condensing long manuscripts before the final prompt.', role: 'text' },
+  assistantChat: { label: 'Assistant chat', hint: 'The AI Assistant tab.', role: 'text' },
+  refinementChat: { label: 'Refinement chats', hint: '"Discuss & Refine" threads in the Editor.', role: 'text' },
+  figureDraft: { label: 'Figure drafts (1K)', hint: 'Text-to-image at standard resolution.', role: 'fastImage' },
+  figureEdit: { label: 'Figure edits', hint: 'Changes to an uploaded figure; the model must accept image input.', role: 'fastImage' },
+  figureHighRes: { label: 'Figure generation (2K)', hint: 'High-resolution text-to-image.', role: 'proImage' },
+};
+
+export const DEFAULT_TASK_SETTINGS: TaskSettings = {
+  analysis: { model: '', temperature: 0.3 },
+  coverLetter: { model: '', temperature: 0.6 },
+  journalMatching: { model: '' },
+  guidelines: { model: '' },
+  sectionSummary: { model: '', temperature: 0.1 },
+  assistantChat: { model: '' },
+  refinementChat: { model: '' },
+  figureDraft: { model: '' },
+  figureEdit: { model: '' },
+  figureHighRes: { model: '' },
+};
+
+export type StoredTaskSettings = Partial<Record<ProviderId, Partial<TaskSettings>>>;
+
+const SETTINGS_KEY = 'manuscriptPilot.taskSettings';
+
+export const getStoredTaskSettings = (): StoredTaskSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveStoredTaskSettings = (settings: StoredTaskSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Stored values for one provider, with defaults for anything not set
+export const taskSettingsFor = (provider: ProviderId, stored = getStoredTaskSettings()): TaskSettings => {
+  const saved = stored[provider] || {};
+  const result = { ...DEFAULT_TASK_SETTINGS };
+  for (const task of Object.keys(result) as GenerationTask[]) {
+    result[task] = { ...DEFAULT_TASK_SETTINGS[task], ...saved[task] };
+  }
+  return result;
+};
+
+const activeProvider = (): Pick<LLMProvider, 'id' | 'models'> => {
+  const settings = getProviderSettings();
+  return { id: settings.activeProvider, models: settings.providers[settings.activeProvider].models };
+};
+
+/**
+ * Model and generation params for a task, ready to spread into a request.
+ * Unset params are omitted so the provider's own defaults apply.
+ */
+export const taskGeneration = (task: GenerationTask, provider: Pick<LLMProvider, 'id' | 'models'> = activeProvider()) => {
+  const { model, temperature, maxOutputTokens, thinkingBudget } = taskSettingsFor(provider.id)[task];
+  return {
+    model: model.trim() || provider.models[GENERATION_TASKS[task].role],
+    ...(temperature !== undefined && { temperature }),
+    ...(maxOutputTokens && { maxOutputTokens }),
+    ...(thinkingBudget !== undefined && { thinkingBudget })
+  };
+};
@@ -0,0 +1,133 @@
+// Word-level diff for comparing manuscript versions and rewrites. Text is split into words, single
+// punctuation marks and whitespace runs; the edit script comes from Myers' O(ND) algorithm, and changes
+// separated only by whitespace are merged so a rewritten phrase reads as one deletion and one insertion.
+
+export type DiffOp = 'equal' | 'delete' | 'insert';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffStats {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+const TOKEN = /\s+|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+export const tokenize = (text: string): string[] => text.match(TOKEN) || [];
+
+// Above this many edits the texts are treated as rewritten wholesale
+const MAX_EDITS = 3000;
+
+// Shortest edit script between two token lists, or null when it needs more than MAX_EDITS edits
+const myers = (a: string[], b: string[]): DiffPart[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // v after each step d, for k in -d..d
+  const trace: Int32Array[] = [];
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) parts.push({ op: 'equal', text: a[--x] }), y--;
+    if (x === prevX) parts.push({ op: 'insert', text: b[--y] });
+    else parts.push({ op: 'delete', text: a[--x] });
+  }
+  while (x > 0 && y > 0) parts.push({ op: 'equal', text: a[--x] }), y--;
+  return parts.reverse();
+};
+
+// Joins runs of the same operation, folds whitespace-only equal runs between two changes into the change,
+// and orders each changed stretch as one deletion followed by one insertion
+const tidy = (parts: DiffPart[]): DiffPart[] => {
+  const folded = parts.map((part, i) => {
+    if (part.op !== 'equal' || part.text.trim()) return part;
+    const before = parts[i - 1];
+    const after = parts[i + 1];
+    return before && after && before.op !== 'equal' && after.op !== 'equal' ? null : part;
+  });
+  const result: DiffPart[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    if (deleted) result.push({ op: 'delete', text: deleted });
+    if (inserted) result.push({ op: 'insert', text: inserted });
+    deleted = inserted = '';
+  };
+  folded.forEach((part, i) => {
+    if (part === null) {
+      // Whitespace between two changes belongs to both sides
+      deleted += parts[i].text;
+      inserted += parts[i].text;
+    } else if (part.op === 'delete') {
+      deleted += part.text;
+    } else if (part.op === 'insert') {
+      inserted += part.text;
+    } else {
+      flush();
+      const last = result[result.length - 1];
+      if (last?.op === 'equal') last.text += part.text;
+      else result.push({ ...part });
+    }
+  });
+  flush();
+  return result;
+};
+
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // Common start and end are cheap to strip and keep the edit search small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const middle = myers(middleA, middleB) || [
+    { op: 'delete' as const, text: middleA.join('') },
+    { op: 'insert' as const, text: middleB.join('') }
+  ];
+  const parts: DiffPart[] = [
+    { op: 'equal', text: a.slice(0, start).join('') },
+    ...middle,
+    { op: 'equal', text: a.slice(a.length - end).join('') }
+  ];
+  return tidy(parts.filter(part => part.text));
+};
+
+const countWords = (text: string) => (text.match(/[\p{L}\p{N}]+/gu) || []).length;
+
+export const diffStats = (parts: DiffPart[]): DiffStats => ({
+  insertedWords: parts.filter(p => p.op === 'insert').reduce((sum, p) => sum + countWords(p.text), 0),
+  deletedWords: parts.filter(p => p.op === 'delete').reduce((sum, p) => sum + countWords(p.text), 0)
+});
+
+export const isUnchanged = (parts: DiffPart[]) => parts.every(p => p.op === 'equal');
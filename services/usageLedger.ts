@@ -0,0 +1,283 @@
+import { LLMProvider, ModelTask, ProviderId, TokenUsage, StreamChunk } from "./llmProvider";
+import { idbGetAll, idbPut, idbClear } from "./idb";
+import { ProviderError } from "./serviceErrors";
+import { getProjectState } from "./projects";
+
+// Local ledger of every billed model call, with estimated cost and spending caps.
+// Costs are estimates from the pricing table below; the provider's invoice is authoritative.
+
+export interface UsageEntry {
+  id: string;
+  timestamp: string;
+  task?: ModelTask;
+  provider: ProviderId;
+  model: string;
+  // Name of the open project when the call was made (or the fallback label, with no project open)
+  manuscript: string;
+  // Totals and the per-manuscript cap follow the project id, so renaming a project keeps its spend
+  projectId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number; // USD
+  // True when the provider reported no usage and tokens were estimated from text length
+  estimated: boolean;
+  // True when a stream stopped before its last chunk (Stop, an error midway); tokens are those seen so far
+  interrupted?: boolean;
+}
+
+export interface ModelPricing {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export interface LedgerSettings {
+  // Label for entries made while no project is open; otherwise the open project is used
+  activeManuscript: string;
+  // USD, 0 = no cap
+  dailyBudget: number;
+  manuscriptBudget: number;
+  pricing: ModelPricing[];
+}
+
+export const UNASSIGNED_MANUSCRIPT = 'Unassigned';
+
+export const DEFAULT_LEDGER_SETTINGS: LedgerSettings = {
+  activeManuscript: '',
+  dailyBudget: 0,
+  manuscriptBudget: 0,
+  // Gemini counts generated image tokens as output, so image models are priced per image instead
+  pricing: [
+    { model: 'gemini-3-pro-preview', inputPerMillion: 2, outputPerMillion: 12, perImage: 0 },
+    { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 },
+    { model: 'gemini-3-pro-image-preview', inputPerMillion: 2, outputPerMillion: 0, perImage: 0.134 }
+  ]
+};
+
+const SETTINGS_KEY = 'manuscriptPilot.ledgerSettings';
+
+export const getLedgerSettings = (): LedgerSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_LEDGER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_LEDGER_SETTINGS;
+  } catch {
+    return DEFAULT_LEDGER_SETTINGS;
+  }
+};
+
+export const saveLedgerSettings = (settings: LedgerSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  emit();
+};
+
+// --- Ledger state ---
+
+let entries: UsageEntry[] = [];
+let loaded: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+const ensureLoaded = () => {
+  if (!loaded) {
+    loaded = idbGetAll<UsageEntry>('usageLedger')
+      .then(stored => {
+        entries = stored.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        emit();
+      })
+      .catch(error => {
+        console.error("Error loading usage ledger:", error);
+        loaded = null;
+      });
+  }
+  return loaded;
+};
+
+// Subscribe / snapshot pair for React's useSyncExternalStore
+export const subscribeLedger = (listener: () => void) => {
+  listeners.add(listener);
+  ensureLoaded();
+  return () => { listeners.delete(listener); };
+};
+
+export const getLedgerEntries = () => entries;
+
+// Local calendar day, YYYY-MM-DD
+export const dayKey = (timestamp: string | number) => new Date(timestamp).toLocaleDateString('en-CA');
+
+const sumCost = (list: UsageEntry[]) => list.reduce((total, e) => total + e.cost, 0);
+
+// What new entries are booked against: the open project, or the settings label while none is open
+export const currentManuscript = (): { projectId?: string; name: string } => {
+  const { activeId, name } = getProjectState();
+  if (activeId) return { projectId: activeId, name: name.trim() || UNASSIGNED_MANUSCRIPT };
+  return { name: getLedgerSettings().activeManuscript.trim() || UNASSIGNED_MANUSCRIPT };
+};
+
+const isCurrentManuscript = (e: UsageEntry, current: { projectId?: string; name: string }) =>
+  current.projectId ? e.projectId === current.projectId : !e.projectId && e.manuscript === current.name;
+
+export const getSpending = () => {
+  const today = dayKey(Date.now());
+  const current = currentManuscript();
+  return {
+    today: sumCost(entries.filter(e => dayKey(e.timestamp) === today)),
+    manuscript: sumCost(entries.filter(e => isCurrentManuscript(e, current)))
+  };
+};
+
+const assertWithinBudget = async () => {
+  await ensureLoaded();
+  const settings = getLedgerSettings();
+  const spent = getSpending();
+  if (settings.dailyBudget > 0 && spent.today >= settings.dailyBudget) {
+    throw new ProviderError('BUDGET_EXCEEDED', `Daily cap of $${settings.dailyBudget.toFixed(2)} reached ($${spent.today.toFixed(2)} spent today).`);
+  }
+  if (settings.manuscriptBudget > 0 && spent.manuscript >= settings.manuscriptBudget) {
+    throw new ProviderError('BUDGET_EXCEEDED', `Cap of $${settings.manuscriptBudget.toFixed(2)} for "${currentManuscript().name}" reached.`);
+  }
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const record = async (
+  provider: LLMProvider,
+  request: { task?: ModelTask; model: string },
+  usage: TokenUsage | undefined,
+  fallback: { input: string; output: string },
+  images = 0,
+  interrupted = false
+) => {
+  const settings = getLedgerSettings();
+  const { projectId, name } = currentManuscript();
+  const tokens = usage || { inputTokens: estimateTokens(fallback.input), outputTokens: estimateTokens(fallback.output) };
+  const price = settings.pricing.find(p => p.model === request.model);
+  const cost = price
+    ? (tokens.inputTokens * price.inputPerMillion + tokens.outputTokens * price.outputPerMillion) / 1e6 + images * price.perImage
+    : 0;
+  const entry: UsageEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    task: request.task,
+    provider: provider.id,
+    model: request.model,
+    manuscript: name,
+    ...(projectId && { projectId }),
+    ...tokens,
+    images,
+    cost,
+    estimated: !usage,
+    ...(interrupted && { interrupted })
+  };
+  await ensureLoaded();
+  entries = [...entries, entry];
+  emit();
+  await idbPut('usageLedger', entry.id, entry).catch(error => console.error("Error writing usage ledger:", error));
+};
+
+// Streams report usage on their last chunk. A stream that ends early (aborted, abandoned by its consumer
+// or failed midway) is still billed, so it is recorded with whatever was seen and flagged as interrupted;
+// one that failed before its first chunk never reached the model and is not.
+async function* meteredStream(
+  provider: LLMProvider,
+  request: { task?: ModelTask; model: string },
+  input: string,
+  stream: () => AsyncGenerator<StreamChunk>
+): AsyncGenerator<StreamChunk> {
+  await assertWithinBudget();
+  let usage: TokenUsage | undefined;
+  let reply = '';
+  let completed = false;
+  try {
+    for await (const chunk of stream()) {
+      usage = chunk.usage || usage;
+      reply += chunk.text;
+      yield chunk;
+    }
+    completed = true;
+  } finally {
+    if (completed || usage || reply) await record(provider, request, usage, { input, output: reply }, 0, !completed);
+  }
+}
+
+export const withLedger = (provider: LLMProvider): LLMProvider => ({
+  ...provider,
+
+  async generateText(request) {
+    await assertWithinBudget();
+    const response = await provider.generateText(request);
+    await record(provider, request, response.usage, { input: (request.systemInstruction || '') + request.prompt, output: response.text });
+    return response;
+  },
+
+  async generateJson(request) {
+    await assertWithinBudget();
+    const response = await provider.generateJson(request);
+    await record(provider, request, response.usage, { input: (request.systemInstruction || '') + request.prompt, output: response.text });
+    return response;
+  },
+
+  streamText: (request) => meteredStream(provider, request, (request.systemInstruction || '') + request.prompt, () => provider.streamText(request)),
+
+  streamChat: (request) => meteredStream(
+    provider,
+    request,
+    [request.systemInstruction || '', ...request.history.map(turn => turn.text), request.message].join(''),
+    () => provider.streamChat(request)
+  ),
+
+  async generateImage(request) {
+    await assertWithinBudget();
+    const response = await provider.generateImage(request);
+    await record(provider, request, response.usage, { input: request.prompt, output: response.text }, response.image ? 1 : 0);
+    return response;
+  }
+});
+
+// --- Reporting ---
+
+export interface UsageTotals {
+  key: string;
+  label: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+// Totals grouped by day or manuscript, most recent / most expensive first. Manuscripts are grouped by
+// project and labelled with the project's latest name.
+export const totalsBy = (list: UsageEntry[], group: 'day' | 'manuscript'): UsageTotals[] => {
+  const totals = new Map<string, UsageTotals>();
+  for (const e of list) {
+    const key = group === 'day' ? dayKey(e.timestamp) : e.projectId || e.manuscript;
+    const t = totals.get(key) || { key, label: key, calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 };
+    if (group === 'manuscript') t.label = e.manuscript;
+    t.calls++;
+    t.inputTokens += e.inputTokens;
+    t.outputTokens += e.outputTokens;
+    t.images += e.images;
+    t.cost += e.cost;
+    totals.set(key, t);
+  }
+  const result = [...totals.values()];
+  return group === 'day'
+    ? result.sort((a, b) => b.key.localeCompare(a.key))
+    : result.sort((a, b) => b.cost - a.cost);
+};
+
+export const ledgerToCsv = (list: UsageEntry[]) => {
+  const header = ['timestamp', 'task', 'provider', 'model', 'manuscript', 'projectId', 'inputTokens', 'outputTokens', 'images', 'costUsd', 'estimated'];
+  const quote = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const rows = list.map(e => [e.timestamp, e.task, e.provider, e.model, e.manuscript, e.projectId, e.inputTokens, e.outputTokens, e.images, e.cost.toFixed(6), e.estimated].map(quote).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const clearLedger = async () => {
+  await idbClear('usageLedger');
+  entries = [];
+  emit();
+};
@@ -0,0 +1,73 @@
+// Minimal ZIP reader for Office documents: reads the central directory and inflates entries with the
+// browser's DecompressionStream. Stored and deflated entries only; no ZIP64, encryption or spanning.
+
+export interface ZipArchive {
+  names: string[];
+  // Entry contents as text, or undefined when the archive has no such entry
+  readText: (name: string) => Promise<string | undefined>;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  // The end-of-directory record is at the end, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive.');
+
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error('Corrupt ZIP directory.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (entry: ZipEntry): Promise<Uint8Array> => {
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_HEADER) throw new Error('Corrupt ZIP entry.');
+    // The local header's name and extra field lengths can differ from the directory's
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = new Uint8Array(buffer, start, entry.compressedSize);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflate(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method}.`);
+  };
+
+  return {
+    names: [...entries.keys()],
+    readText: async (name) => {
+      const entry = entries.get(name);
+      return entry ? decoder.decode(await read(entry)) : undefined;
+    }
+  };
+};
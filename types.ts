@@ -1,11 +1,16 @@
+import type { LogicCheckResult } from './services/responseSchemas';
 
 export enum AppTab {
   EDITOR = 'EDITOR',
+  BATCH = 'BATCH',
   COVER_LETTER = 'COVER_LETTER',
   FIGURE_CHECK = 'FIGURE_CHECK',
   GUIDELINES = 'GUIDELINES',
   CHAT = 'CHAT',
-  JOURNAL_FINDER = 'JOURNAL_FINDER'
+  JOURNAL_FINDER = 'JOURNAL_FINDER',
+  VERSIONS = 'VERSIONS',
+  USAGE = 'USAGE',
+  SETTINGS = 'SETTINGS'
 }
 
 export enum AnalysisType {
@@ -15,6 +20,9 @@ export enum AnalysisType {
   REBUTTAL = 'REBUTTAL'
 }
 
+// A built-in AnalysisType or the id of a user-defined analysis (see customAnalyses.ts)
+export type AnalysisId = AnalysisType | string;
+
 export interface AnalysisResult {
   originalText: string;
   modifiedText?: string;
@@ -22,6 +30,17 @@ export interface AnalysisResult {
   type: AnalysisType;
 }
 
+// Output of an Editor analysis, with the prompt template versions that produced it
+export interface AnalysisOutput {
+  text: string;
+  // The rewritten input, for analyses that rewrite; the rest of the answer is in notes
+  rewrite?: string;
+  notes: string;
+  // Logic Check: the structured answer, each issue quoting the span of the input it refers to
+  logicCheck?: LogicCheckResult;
+  promptVersions: string[];
+}
+
 export interface CoverLetterParams {
   title: string;
   authorName: string;
@@ -31,6 +50,206 @@ export interface CoverLetterParams {
   editorName?: string;
 }
 
+// The paper being worked on, shared by every tab
+export interface ManuscriptAuthor {
+  name: string;
+  affiliation: string;
+  corresponding: boolean;
+}
+
+// A section's text starts with its heading line, so joining the sections gives back the exact full text
+export interface ManuscriptSection {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface ManuscriptFigure {
+  id: string;
+  label: string; // "Figure 1"
+  caption: string;
+  key?: string; // LaTeX \label, for \ref{...}
+}
+
+export interface ManuscriptReference {
+  id: string;
+  text: string;
+  key?: string; // Citation key, for \cite{...}
+}
+
+// A paragraph of the imported text and where it came from, so edits can be written back to the source.
+// Paragraphs without a file were generated by the importer (e.g. the reference list) and are never written back.
+export interface SourceParagraph {
+  text: string;
+  file?: string;
+  start?: number;
+  end?: number;
+  // Text added in front of the source span, e.g. "# " for a \section title
+  prefix?: string;
+}
+
+export interface LatexSource {
+  kind: 'latex';
+  mainFile: string;
+  // Every imported .tex and .bib file, unmodified
+  files: Record<string, string>;
+  paragraphs: SourceParagraph[];
+}
+
+export interface Manuscript {
+  title: string;
+  abstract: string;
+  authors: ManuscriptAuthor[];
+  sections: ManuscriptSection[];
+  figures: ManuscriptFigure[];
+  references: ManuscriptReference[];
+  source?: LatexSource; // Set when the manuscript was imported from LaTeX
+}
+
+// --- Projects ---
+
+// A part of the shared manuscript: "abstract" or a section id, with its title for display
+export interface ManuscriptPartRef {
+  source: string;
+  title: string;
+}
+
+// One review decision on a change hunk of a rewrite (see hunks.ts); later decisions on a hunk replace earlier ones
+export interface HunkDecision {
+  hunk: number;
+  status: 'accepted' | 'rejected' | 'edited';
+  text?: string; // The author's wording, for "edited"
+  decidedAt: number;
+}
+
+// Where a history item sits in a pipeline run (see pipelines.ts); its input is the previous stage's rewrite
+export interface PipelineStage {
+  runId: string;
+  name: string;
+  step: number; // 1-based
+  steps: number;
+}
+
+// An Editor analysis, with its refinement thread
+export interface HistoryItem {
+  id: string;
+  type: AnalysisId;
+  analysisName?: string; // Custom analyses: the name when it ran, in case the definition is deleted later
+  input: string;
+  output: string;
+  rewrite?: string; // Rewritten input, split from the notes (see analysisOutput.ts)
+  notes?: string;
+  logicCheck?: LogicCheckResult; // Structured Logic Check answer; its issues are anchored to the input by their quotes (see logicIssues.ts)
+  decisions?: HunkDecision[]; // Review trail of the rewrite's changes, oldest first
+  loadedFrom?: ManuscriptPartRef; // Where the input came from, so the merged result can go back there
+  pipeline?: PipelineStage;
+  timestamp: Date;
+  chatMessages: ChatMessage[]; // For the specific discussion thread
+  isChatOpen: boolean;
+  targetJournal: string; // Track which journal this was polished for
+  promptVersions: string[]; // Prompt templates (and override revisions) that produced the output
+}
+
+// One paragraph of a batch analysis (see batchAnalysis.ts) and its result
+export interface BatchParagraph {
+  id: string;
+  part: ManuscriptPartRef; // The abstract or section the paragraph is in
+  index: number; // 1-based position among the part's paragraphs
+  input: string;
+  status: 'pending' | 'done' | 'failed' | 'cancelled';
+  rewrite?: string;
+  notes?: string;
+  error?: ServiceError;
+  decisions?: HunkDecision[];
+  appliedAt?: number; // When the reviewed result was written into the manuscript
+}
+
+export interface BatchRun {
+  id: string;
+  type: AnalysisId;
+  analysisName?: string;
+  scope: ManuscriptPartRef | null; // null: the whole manuscript
+  targetJournal: string;
+  startedAt: number;
+  promptVersions: string[];
+  paragraphs: BatchParagraph[];
+}
+
+export interface FigureMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  timestamp: Date;
+}
+
+// Each tab's saved work; a tab that was never used has no entry
+export interface ProjectWorkspace {
+  editor?: {
+    inputText: string;
+    history: HistoryItem[];
+    // Part of the manuscript the input was loaded from ("abstract" or a section id), so it can be saved back
+    loadedFrom?: ManuscriptPartRef | null;
+  };
+  batch?: {
+    scope: string; // "all", "abstract" or a section id
+    analysisType: AnalysisId;
+    run: BatchRun | null;
+  };
+  coverLetter?: {
+    editorName: string;
+    letter: string;
+    coverage: TextCoverage | null;
+  };
+  figures?: {
+    originalImage: string | null; // Data URLs, so bundles carry the images
+    latestImage: string | null;
+    messages: FigureMessage[];
+    aspectRatio: string;
+    imageSize: string;
+  };
+}
+
+// A named copy of the manuscript at one revision round ("submitted v1", "revision 1")
+export interface ManuscriptSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  // Without the LaTeX source files, which only the current version writes back to
+  manuscript: Manuscript;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  targetJournal: string;
+  manuscript: Manuscript;
+  workspace: ProjectWorkspace;
+  // Oldest first; missing in projects saved before snapshots existed
+  snapshots?: ManuscriptSnapshot[];
+}
+
+export type ServiceErrorKind =
+  | 'QUOTA_EXCEEDED'
+  | 'INVALID_KEY'
+  | 'SAFETY_BLOCKED'
+  | 'MALFORMED_JSON'
+  | 'NETWORK'
+  | 'CANCELLED'
+  | 'BUDGET_EXCEEDED'
+  | 'UNKNOWN';
+
+export interface ServiceError {
+  kind: ServiceErrorKind;
+  message: string; // Raw detail from the provider, for the console / tooltip
+}
+
+// Every service call resolves to either a value or a classified error - never an in-band error string
+export type ServiceResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'error'; error: ServiceError };
+
 export interface FigureAnalysis {
   imageUrl: string;
   critique: string;
@@ -44,42 +263,24 @@ export interface ChatMessage {
   isStreaming?: boolean;
 }
 
-export interface JournalEvaluationResult {
-  journalName: string;
-  matchScore: number;
-  verdict: 'Strong Candidate' | 'Worth Trying' | 'High Risk' | 'Out of Scope';
-  strengths: string[];
-  weaknesses: string[];
-  editorComments: string;
-}
+// Structured response types are derived from their runtime schemas
+export type { JournalEvaluationResult, JournalGuidelines, JournalSuggestion, LogicCheckResult, LogicIssue } from './services/responseSchemas';
 
-export interface JournalGuidelines {
-  journalName: string;
-  wordCounts: {
-    article: string;
-    abstract: string;
-    methods: string;
-  };
-  formatting: {
-    figures: string;
-    references: string;
-    fonts: string;
-  };
-  editorialCriteria: {
-    scope: string;
-    novelty: string;
-    dataRigor: string;
-  };
+// How much of a long manuscript actually reached the model
+export interface TextCoverage {
+  // 'full': sent verbatim; 'digest': each section summarized first and the summaries sent instead
+  mode: 'full' | 'digest';
+  totalChars: number;
+  consideredChars: number;
+  sections: {
+    title: string;
+    chars: number;
+    status: 'included' | 'summarized' | 'skipped' | 'failed';
+  }[];
 }
 
-export const PRESET_JOURNALS = [
-  "Nature Cell Biology",
-  "Nature",
-  "Science",
-  "Cell",
-  "Molecular Cell",
-  "Nature Communications",
-  "Journal of Cell Biology",
-  "Current Biology",
-  "eLife"
-];
+// A service result for long input, together with what was considered to produce it
+export interface Covered<T> {
+  result: T;
+  coverage: TextCoverage;
+}